@@ -0,0 +1,274 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import type { Config } from 'agentlang/out/runtime/state.js';
+import {
+  applyOverrides,
+  ConfigError,
+  deepMerge,
+  envOverrides,
+  interpolateEnv,
+  isPlainObject,
+  parseSetOverrides,
+} from './overlays.js';
+import { appDirOf, loadEnvFiles, profileEnvFileNames } from './envFiles.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modLoader: typeof import('agentlang/out/runtime/loader.js') = await import(`${agPath}/out/runtime/loader.js`);
+const { loadAppConfig, loadRawConfig } = modLoader;
+const modState: typeof import('agentlang/out/runtime/state.js') = await import(`${agPath}/out/runtime/state.js`);
+const { ConfigSchema, setAppConfig } = modState;
+const modUtil: typeof import('agentlang/out/runtime/util.js') = await import(`${agPath}/out/runtime/util.js`);
+const { preprocessRawConfig } = modUtil;
+
+export interface ConfigOptions {
+  // Configuration file to use instead of the config.al or app.config.json of the app
+  config?: string;
+  // Repeatable --set key.path=value overrides
+  set?: string[];
+  // Name of a profile whose configuration file is layered over the base one
+  profile?: string;
+}
+
+const profileName = /^[A-Za-z0-9_-]+$/;
+
+// Directory holding config.al or app.config.json for an app file or directory
+function appConfigDir(fileName: string): string {
+  return path.dirname(fileName) === '.' ? process.cwd() : path.resolve(process.cwd(), fileName);
+}
+
+export function relativeToCwd(file: string): string {
+  return path.relative(process.cwd(), file) || file;
+}
+
+/**
+ * Files a profile may be read from, in order of preference: the base file name
+ * with the profile before its extension (app.config.prod.json next to
+ * app.config.json), then app.config.<profile>.json. Profiles are never .al
+ * files, which the runtime loader would take for modules of the app.
+ */
+export function profileConfigCandidates(configDir: string, profile: string, baseFile?: string): string[] {
+  if (!profileName.test(profile)) {
+    throw new ConfigError(`Invalid profile name "${profile}", use letters, digits, "-" and "_" only`);
+  }
+  const candidates = [path.join(configDir, `app.config.${profile}.json`)];
+  const ext = baseFile ? path.extname(baseFile) : '';
+  if (baseFile && ext.toLowerCase() !== '.al') {
+    candidates.unshift(path.join(path.dirname(baseFile), `${path.basename(baseFile, ext)}.${profile}${ext}`));
+  }
+  return [...new Set(candidates)];
+}
+
+/**
+ * Finds the configuration file of a profile. A profile may have env files
+ * only, as in .env.staging, in which case there is no file to layer.
+ */
+export function findProfileConfig(
+  configDir: string,
+  profile: string,
+  baseFile?: string,
+  appDir = configDir,
+): string | undefined {
+  const candidates = profileConfigCandidates(configDir, profile, baseFile);
+  const file = candidates.find(f => existsSync(f));
+  const envFiles = profileEnvFileNames(profile);
+  const alFile = path.join(configDir, `config.${profile}.al`);
+  if (!file && existsSync(alFile)) {
+    throw new ConfigError(`Profile files cannot be .al files: ${relativeToCwd(alFile)}`, [
+      `The runtime loads every .al file of the app as a module, rename it to app.config.${profile}.json`,
+    ]);
+  }
+  if (!file && !envFiles.some(name => existsSync(path.join(appDir, name)))) {
+    throw new ConfigError(`No configuration found for profile "${profile}"`, [
+      `Expected one of: ${[...candidates, path.join(appDir, envFiles[0])].map(relativeToCwd).join(', ')}`,
+    ]);
+  }
+  return file;
+}
+
+export async function readConfigText(file: string): Promise<string> {
+  return interpolateEnv(await readFile(file, 'utf-8'), relativeToCwd(file));
+}
+
+/**
+ * Parses a configuration file written as a JSON object, which is required
+ * wherever files are combined or edited as objects rather than handed to the
+ * loader as text. `purpose` completes the error message.
+ */
+export function parseConfigObject(
+  text: string,
+  file: string,
+  purpose = 'to be combined with a profile',
+): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`${relativeToCwd(file)} must be a JSON object ${purpose}`, [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ConfigError(`${relativeToCwd(file)} must be a JSON object ${purpose}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Replaces the ${env:...} references written outside of strings, as in
+ * "port": ${env:PORT:-8080}, with string placeholders so that the raw text of
+ * a configuration file parses as JSON. `restore` puts them back in JSON text
+ * produced from the parsed object. Placeholders keep the reference they stand
+ * for, so that they are still recognized as references.
+ */
+export function protectEnvReferences(text: string): { text: string; restore: (json: string) => string } {
+  const references = new Set<string>();
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === '\\') {
+        result += c + (text[++i] ?? '');
+        continue;
+      }
+      inString = c !== '"';
+    } else if (c === '"') {
+      inString = true;
+    } else if (text.startsWith('${', i) && text.indexOf('}', i) > i) {
+      const reference = text.substring(i, text.indexOf('}', i) + 1);
+      references.add(reference);
+      result += JSON.stringify(envPlaceholder(reference));
+      i += reference.length - 1;
+      continue;
+    }
+    result += c;
+  }
+  const restore = (json: string) =>
+    [...references].reduce((out, ref) => out.replaceAll(JSON.stringify(envPlaceholder(ref)), ref), json);
+  return { text: result, restore };
+}
+
+const envPlaceholder = (reference: string) => `\u0000${reference}\u0000`;
+
+/**
+ * Settings of the runtime within a configuration object: the "agentlang"
+ * section of config.al, or the object itself for the older layout of
+ * app.config.json, which has service and store at the top level.
+ */
+export function settingsOf(object: Record<string, unknown>): Record<string, unknown> {
+  if (isOldLayout(object)) return object;
+  return isPlainObject(object.agentlang) ? object.agentlang : {};
+}
+
+export function isOldLayout(object: Record<string, unknown>): boolean {
+  return 'service' in object || 'store' in object;
+}
+
+/**
+ * Entries of the openapi section may name a spec checked into the app with
+ * specPath, relative to the configuration, which the runtime does not know:
+ * it is turned into a file: URL in specUrl.
+ */
+export function resolveSpecPaths(object: Record<string, unknown>, configDir: string): Record<string, unknown> {
+  const settings = settingsOf(object);
+  if (!Array.isArray(settings.openapi)) return object;
+  const openapi = settings.openapi.map((item: unknown) => {
+    if (!isPlainObject(item) || typeof item.specPath !== 'string' || item.specUrl !== undefined) return item;
+    const { specPath, ...rest } = item;
+    return { ...rest, specUrl: pathToFileURL(path.resolve(configDir, specPath)).href };
+  });
+  return isOldLayout(object) ? { ...object, openapi } : { ...object, agentlang: { ...settings, openapi } };
+}
+
+export interface ConfigFiles {
+  configDir: string;
+  // Set when the file was given with --config
+  explicit: boolean;
+  baseFile?: string;
+  profileFile?: string;
+}
+
+/**
+ * Finds the files the configuration of an app is read from: the file given
+ * with --config, or else config.al or app.config.json, and the file of the
+ * selected profile.
+ */
+export function locateConfigFiles(fileName: string, options?: ConfigOptions): ConfigFiles {
+  const configFile = options?.config ? path.resolve(process.cwd(), options.config) : undefined;
+  const configDir = configFile ? path.dirname(configFile) : appConfigDir(fileName);
+  const candidates = configFile ? [configFile] : ['config.al', 'app.config.json'].map(f => path.join(configDir, f));
+  const baseFile = candidates.find(f => existsSync(f));
+  const profileFile = options?.profile
+    ? findProfileConfig(configDir, options.profile, baseFile, appDirOf(fileName))
+    : undefined;
+  return { configDir, explicit: configFile !== undefined, baseFile: baseFile ?? configFile, profileFile };
+}
+
+async function loadConfigFile(fileName: string, options?: ConfigOptions): Promise<Config> {
+  const { configDir, explicit, baseFile, profileFile } = locateConfigFiles(fileName, options);
+  loadEnvFiles(appDirOf(fileName), options?.profile);
+  const hasBase = baseFile !== undefined && existsSync(baseFile);
+
+  let text = hasBase ? await readConfigText(baseFile) : undefined;
+  if (profileFile) {
+    const base = text !== undefined && hasBase ? parseConfigObject(text, baseFile) : {};
+    text = JSON.stringify(deepMerge(base, parseConfigObject(await readConfigText(profileFile), profileFile)));
+  }
+
+  if (text !== undefined) {
+    try {
+      text = JSON.stringify(resolveSpecPaths(parseConfigObject(text, baseFile ?? configDir), configDir));
+    } catch {
+      // Files in the syntax of config.al are handed to the loader as they are
+    }
+  }
+
+  if (text === undefined) {
+    return explicit && baseFile ? setAppConfig((await loadRawConfig(baseFile)) as Config) : loadAppConfig(configDir);
+  }
+  if (explicit) {
+    // Same as loadRawConfig, on the text with its ${env:...} references replaced
+    return setAppConfig(ConfigSchema.parse(preprocessRawConfig(JSON.parse(text))));
+  }
+  // loadAppConfig accepts the content of config.al (or app.config.json) in place of a directory
+  return loadAppConfig(text);
+}
+
+// Validates the configuration the same way the loader does, reporting every issue
+function checkConfig(config: unknown, origin: string): Config {
+  const result = ConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new ConfigError(
+      `Invalid configuration after applying ${origin}`,
+      result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Resolves the configuration of an app: config.al, app.config.json or the
+ * file given with --config, deep-merged with the file of the profile if one
+ * is selected, with ${env:NAME} and ${secret:NAME} references interpolated,
+ * then AGENTLANG__* environment variables and --set flags applied on top of
+ * it. The env files of the app are loaded into the environment first. The result is
+ * installed as the app configuration. Throws a ConfigError for configuration
+ * problems.
+ */
+export async function resolveAppConfig(fileName: string, options?: ConfigOptions): Promise<Config> {
+  const config = await loadConfigFile(fileName, options);
+  const overrides = [...envOverrides(), ...parseSetOverrides(options?.set ?? [])];
+  if (overrides.length === 0) {
+    return config;
+  }
+  const origins = overrides.map(o => o.origin).join(', ');
+  return setAppConfig(checkConfig(applyOverrides(config, overrides), origins));
+}
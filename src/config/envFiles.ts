@@ -0,0 +1,58 @@
+import * as path from 'node:path';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { parse } from 'dotenv';
+
+export interface EnvFiles {
+  // Files that were found, in the order they were read
+  files: string[];
+  // Variables of all the files, later files overriding earlier ones
+  values: Record<string, string>;
+}
+
+// Variables set from env files, which a later load may update, unlike the ones set by the user
+const loadedVariables = new Map<string, string>();
+
+/**
+ * Env files of an app, from lowest to highest precedence: .env, .env.local,
+ * then .env.<profile> and .env.<profile>.local when a profile is selected.
+ */
+export function envFileNames(profile?: string): string[] {
+  return ['.env', '.env.local', ...(profile ? profileEnvFileNames(profile) : [])];
+}
+
+export function profileEnvFileNames(profile: string): string[] {
+  return [`.env.${profile}`, `.env.${profile}.local`];
+}
+
+// Directory of an app given as its directory or one of its source files
+export function appDirOf(fileName: string): string {
+  const resolved = path.resolve(process.cwd(), fileName);
+  return existsSync(resolved) && statSync(resolved).isFile() ? path.dirname(resolved) : resolved;
+}
+
+export function readEnvFiles(appDir: string, profile?: string): EnvFiles {
+  const result: EnvFiles = { files: [], values: {} };
+  for (const name of envFileNames(profile)) {
+    const file = path.join(appDir, name);
+    if (!existsSync(file)) continue;
+    result.files.push(file);
+    Object.assign(result.values, parse(readFileSync(file, 'utf-8')));
+  }
+  return result;
+}
+
+/**
+ * Loads the env files of an app into the environment. Variables that are
+ * already set in the environment are kept, as with dotenv, except the ones an
+ * earlier call set from env files, so that a reload picks up edited files.
+ * Returns the files that were read.
+ */
+export function loadEnvFiles(appDir: string, profile?: string, env: NodeJS.ProcessEnv = process.env): string[] {
+  const { files, values } = readEnvFiles(appDir, profile);
+  for (const [name, value] of Object.entries(values)) {
+    if (env[name] !== undefined && env[name] !== loadedVariables.get(name)) continue;
+    env[name] = value;
+    loadedVariables.set(name, value);
+  }
+  return files;
+}
@@ -0,0 +1,294 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import {
+  isOldLayout,
+  locateConfigFiles,
+  parseConfigObject,
+  profileConfigCandidates,
+  protectEnvReferences,
+  readConfigText,
+  relativeToCwd,
+  resolveAppConfig,
+  resolveSpecPaths,
+  settingsOf,
+  type ConfigOptions,
+} from './appConfig.js';
+import {
+  applyOverrides,
+  ConfigError,
+  deepMerge,
+  envOverrides,
+  formatConfigPath,
+  isPlainObject,
+  parseConfigKey,
+  parseConfigValue,
+  parseSetOverrides,
+  resolveKey,
+  type ConfigOverride,
+} from './overlays.js';
+import { maskSecret } from './secrets.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modState: typeof import('agentlang/out/runtime/state.js') = await import(`${agPath}/out/runtime/state.js`);
+const { ConfigSchema } = modState;
+const modRuntimeModule: typeof import('agentlang/out/runtime/module.js') = await import(
+  `${agPath}/out/runtime/module.js`
+);
+const { getAttributeDefaultValue, getEntity, isModule, isOptionalAttribute } = modRuntimeModule;
+
+export interface ConfigEntry {
+  key: string;
+  value: unknown;
+  // File, environment variable or flag the value comes from, or "default"
+  origin: string;
+}
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+interface SettingsLayer {
+  origin: string;
+  // Unset when the file is not plain JSON and its keys cannot be told apart
+  settings?: Record<string, unknown>;
+}
+
+function flatten(value: unknown, prefix: string[]): { path: string[]; value: unknown }[] {
+  if (!isPlainObject(value) || (prefix.length > 0 && Object.keys(value).length === 0)) {
+    return [{ path: prefix, value }];
+  }
+  return Object.entries(value).flatMap(([key, v]) => flatten(v, [...prefix, key]));
+}
+
+function definesPath(settings: Record<string, unknown>, keys: string[]): boolean {
+  let current: unknown = settings;
+  for (const key of keys) {
+    if (!isPlainObject(current) || !(key in current)) return false;
+    current = current[key];
+  }
+  return true;
+}
+
+function overridesPath(override: ConfigOverride, keys: string[]): boolean {
+  return (
+    override.path.length <= keys.length && override.path.every((p, i) => p.toLowerCase() === keys[i].toLowerCase())
+  );
+}
+
+async function settingsLayers(fileName: string, options?: ConfigOptions): Promise<SettingsLayer[]> {
+  const { explicit, baseFile, profileFile } = locateConfigFiles(fileName, options);
+  const layers: SettingsLayer[] = [];
+  for (const file of [baseFile, profileFile]) {
+    if (!file || !existsSync(file)) continue;
+    const text = await readConfigText(file);
+    try {
+      layers.push({ origin: relativeToCwd(file), settings: settingsOf(parseConfigObject(text, file)) });
+    } catch {
+      layers.push({ origin: relativeToCwd(file) });
+    }
+  }
+  // The loader merges APP_CONFIG over the file it reads from the app directory
+  const envAppConfig = process.env.APP_CONFIG;
+  if (!explicit && envAppConfig) {
+    layers.push({ origin: 'APP_CONFIG', settings: JSON.parse(envAppConfig) as Record<string, unknown> });
+  }
+  return layers;
+}
+
+/**
+ * Lists every value of the effective configuration along with where it comes
+ * from: the last override, environment variable or file that sets it, or the
+ * defaults of the runtime. Secrets are masked.
+ */
+export async function explainConfig(fileName: string, options?: ConfigOptions): Promise<ConfigEntry[]> {
+  const config = await resolveAppConfig(fileName, options);
+  const layers = await settingsLayers(fileName, options);
+  const overrides = [...envOverrides(), ...parseSetOverrides(options?.set ?? [])];
+
+  return flatten(config, []).map(({ path: keys, value }) => {
+    const override = [...overrides].reverse().find(o => overridesPath(o, keys));
+    const layer = [...layers].reverse().find(l => !l.settings || definesPath(l.settings, keys));
+    return {
+      key: keys.join('.'),
+      value: maskSecret(keys[keys.length - 1], value),
+      origin: override?.origin ?? layer?.origin ?? 'default',
+    };
+  });
+}
+
+// Instances of config sections are written as { "Module/Entity": { attributes } }
+function checkInstance(instance: unknown, at: (string | number)[], issues: ConfigIssue[]): void {
+  const entries = isPlainObject(instance) ? Object.entries(instance) : [];
+  if (entries.length !== 1) {
+    issues.push({ path: formatConfigPath(at), message: 'Expected an object with a single "Module/Entity" key' });
+    return;
+  }
+  const [fqName, attributes] = entries[0];
+  const where = [...at, fqName];
+  const slash = fqName.lastIndexOf('/');
+  const moduleName = fqName.substring(0, slash);
+  const entityName = fqName.substring(slash + 1);
+  if (slash <= 0 || !isModule(moduleName)) {
+    // Entities of the app itself are only known once it is loaded
+    if (slash <= 0 || moduleName.startsWith('agentlang')) {
+      issues.push({ path: formatConfigPath(where), message: `Unknown module ${moduleName || fqName}` });
+    }
+    return;
+  }
+  const entity = getEntity(entityName, moduleName);
+  if (!entity) {
+    issues.push({ path: formatConfigPath(where), message: `Unknown entity ${fqName}` });
+    return;
+  }
+  if (!isPlainObject(attributes)) {
+    issues.push({ path: formatConfigPath(where), message: 'Expected an object of attributes' });
+    return;
+  }
+  for (const name of Object.keys(attributes)) {
+    if (!entity.schema.has(name)) {
+      issues.push({ path: formatConfigPath([...where, name]), message: `Unknown attribute of ${fqName}` });
+    }
+  }
+  for (const [name, spec] of entity.schema) {
+    // Attributes starting with __ are maintained by the runtime
+    if (name.startsWith('__') || name in attributes) continue;
+    if (!isOptionalAttribute(spec) && getAttributeDefaultValue(spec) === undefined) {
+      issues.push({ path: formatConfigPath([...where, name]), message: `Missing required attribute of ${fqName}` });
+    }
+  }
+}
+
+/**
+ * Checks the configuration files of an app, merged with the profile and the
+ * overrides: the settings of the runtime (including the integrations and
+ * openapi sections) against the configuration schema, and every other
+ * section, such as agentlang.ai, as instances of the entities they name.
+ * Issues are reported with the path of the offending value.
+ */
+export async function validateConfig(fileName: string, options?: ConfigOptions): Promise<ConfigIssue[]> {
+  const { configDir, baseFile, profileFile } = locateConfigFiles(fileName, options);
+  const files = [baseFile, profileFile].filter((f): f is string => f !== undefined && existsSync(f));
+  const objects: Record<string, unknown>[] = [];
+  for (const file of files) {
+    objects.push(parseConfigObject(await readConfigText(file), file, 'to be validated'));
+  }
+  const merged = objects.reduce((result, object) => deepMerge(result, object), {});
+  const overrides = [...envOverrides(), ...parseSetOverrides(options?.set ?? [])];
+  const oldLayout = isOldLayout(merged);
+  const prefix = oldLayout ? [] : ['agentlang'];
+
+  const issues: ConfigIssue[] = [];
+  const settings = settingsOf(merged);
+  if (Array.isArray(settings.openapi)) {
+    settings.openapi.forEach((item: unknown, i) => {
+      const specPath = isPlainObject(item) ? item.specPath : undefined;
+      if (typeof specPath === 'string' && !existsSync(path.resolve(configDir, specPath))) {
+        issues.push({ path: formatConfigPath([...prefix, 'openapi', i, 'specPath']), message: 'File not found' });
+      }
+    });
+  }
+  const result = ConfigSchema.safeParse(applyOverrides(settingsOf(resolveSpecPaths(merged, configDir)), overrides));
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const at = [...prefix, ...issue.path].map(p => (typeof p === 'symbol' ? String(p) : p));
+      issues.push({ path: formatConfigPath(at), message: issue.message });
+    }
+  }
+
+  if (!oldLayout) {
+    for (const [section, value] of Object.entries(merged)) {
+      if (section === 'agentlang') continue;
+      if (Array.isArray(value)) {
+        value.forEach((instance, i) => checkInstance(instance, [section, i], issues));
+      } else {
+        checkInstance(value, [section], issues);
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Value of a key of the effective configuration, or undefined when it is not
+ * set. Secrets are not masked, the value is meant for scripts.
+ */
+export async function getConfigValue(fileName: string, key: string, options?: ConfigOptions): Promise<unknown> {
+  const keys = parseConfigKey(key);
+  if (!keys) {
+    throw new ConfigError(`Invalid key "${key}", expected a path such as service.port`);
+  }
+  let current: unknown = await resolveAppConfig(fileName, options);
+  for (const name of keys) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[resolveKey(current, name)];
+  }
+  return current;
+}
+
+/**
+ * Sets a key in the configuration file of the app, or in the file of the
+ * profile when one is given, creating the file if needed. The file must be a
+ * JSON object, and is left unchanged when the result does not validate.
+ * Returns the file that was written.
+ */
+export async function setConfigValue(
+  fileName: string,
+  key: string,
+  value: string,
+  options?: ConfigOptions,
+): Promise<string> {
+  const keys = parseConfigKey(key);
+  if (!keys) {
+    throw new ConfigError(`Invalid key "${key}", expected a path such as service.port`);
+  }
+  const { configDir, baseFile } = locateConfigFiles(fileName, { ...options, profile: undefined });
+  let target = baseFile ?? path.join(configDir, 'config.al');
+  if (options?.profile) {
+    const candidates = profileConfigCandidates(configDir, options.profile, baseFile);
+    target = candidates.find(f => existsSync(f)) ?? candidates[0];
+  }
+
+  const exists = existsSync(target);
+  const original = exists ? await readFile(target, 'utf-8') : undefined;
+  const raw = protectEnvReferences(original ?? '{}');
+  const object = parseConfigObject(raw.text, target, 'to be edited with agent config set');
+  // A new profile file is merged over the base file, so it takes the layout of the base
+  const oldLayout = exists ? isOldLayout(object) : path.extname(baseFile ?? target) === '.json';
+  const override: ConfigOverride = { path: keys, value: parseConfigValue(value), origin: key };
+
+  let updated: Record<string, unknown>;
+  if (oldLayout) {
+    updated = applyOverrides(object, [override]);
+  } else {
+    updated = { ...object, agentlang: applyOverrides(settingsOf(object), [override]) };
+  }
+  await writeFile(target, `${raw.restore(JSON.stringify(updated, null, 2))}\n`, 'utf-8');
+
+  let issues: ConfigIssue[] = [];
+  try {
+    issues = await validateConfig(fileName, options);
+  } catch (error) {
+    // Files referencing unset environment variables cannot be checked here
+    if (!(error instanceof ConfigError)) throw error;
+  }
+  if (issues.length > 0) {
+    if (original === undefined) {
+      await rm(target, { force: true });
+    } else {
+      await writeFile(target, original, 'utf-8');
+    }
+    throw new ConfigError(
+      `Setting ${key} would make the configuration invalid, ${relativeToCwd(target)} was left unchanged`,
+      issues.map(issue => `${issue.path}: ${issue.message}`),
+    );
+  }
+  return target;
+}
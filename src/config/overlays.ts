@@ -0,0 +1,234 @@
+import { readFileSync } from 'node:fs';
+
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigOverride {
+  // Keys from the root of the agentlang configuration, as in service.port
+  path: string[];
+  value: unknown;
+  // Where the override comes from, for error messages
+  origin: string;
+}
+
+// Prefix of environment variables that override configuration values
+export const envOverlayPrefix = 'AGENTLANG__';
+
+// ${env:NAME} or ${env:NAME:-default}
+const envReference = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// ${secret:NAME}, read from the environment or from the file named by NAME_FILE
+const secretReference = /\$\{secret:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Values substituted for secret references, so that they can be masked wherever they are printed
+const resolvedSecrets = new Set<string>();
+
+export function isResolvedSecret(value: unknown): boolean {
+  return typeof value === 'string' && resolvedSecrets.has(value);
+}
+
+// Ranges of the text covered by double-quoted strings, as config.al and JSON write them, skipping // comments
+function stringRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      i = end < 0 ? text.length : end;
+    } else if (text[i] === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+      ranges.push([start, i]);
+    }
+  }
+  return ranges;
+}
+
+// A value as it is written inside a string literal
+function escapeInString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+function readSecret(name: string, env: NodeJS.ProcessEnv): string | undefined {
+  const value = env[name];
+  if (value) return value;
+  // As with Docker and Kubernetes secrets mounted as files
+  const file = env[`${name}_FILE`];
+  if (!file) return undefined;
+  try {
+    return readFileSync(file, 'utf-8').replace(/\r?\n$/, '');
+  } catch (error) {
+    throw new ConfigError(`Cannot read secret ${name} from ${file}`, [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+}
+
+/**
+ * Replaces ${env:NAME} and ${env:NAME:-default} references in the text of a
+ * configuration file. References inside a string are escaped as strings
+ * require, others are replaced as raw text, so a reference used as a number
+ * or boolean must not be quoted. ${secret:NAME} references
+ * are meant to be used inside strings and are escaped accordingly; they have
+ * no default, and may be read from the file named by NAME_FILE. Every
+ * variable that is unset and has no default is reported at once.
+ */
+export function interpolateEnv(text: string, origin: string, env: NodeJS.ProcessEnv = process.env): string {
+  const missing = new Set<string>();
+  const missingSecrets = new Set<string>();
+  const strings = stringRanges(text);
+  const result = text
+    .replace(envReference, (_match, name: string, fallback: string | undefined, offset: number) => {
+      const quoted = strings.some(([start, end]) => offset > start && offset < end);
+      const value = env[name];
+      // As in the shell, the default also replaces a variable that is set but empty
+      if (value !== undefined && (value !== '' || fallback === undefined)) {
+        return quoted ? escapeInString(value) : value;
+      }
+      if (fallback !== undefined) return fallback;
+      missing.add(name);
+      return '';
+    })
+    .replace(secretReference, (_match, name: string) => {
+      const value = readSecret(name, env);
+      if (value === undefined) {
+        missingSecrets.add(name);
+        return '';
+      }
+      resolvedSecrets.add(value);
+      return escapeInString(value);
+    });
+  const count = missing.size + missingSecrets.size;
+  if (count > 0) {
+    throw new ConfigError(`Missing required environment variable${count === 1 ? '' : 's'} in ${origin}`, [
+      ...[...missing].map(
+        name => `${name} is not set and has no default, use \${env:${name}:-<default>} to make it optional`,
+      ),
+      ...[...missingSecrets].map(
+        name => `Secret ${name} is not set, set ${name} or ${name}_FILE, for instance in .env`,
+      ),
+    ]);
+  }
+  return result;
+}
+
+// Values are read as JSON when possible, so port=9090 is a number and enabled=true a boolean
+export function parseConfigValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Splits a key such as service.port into its path, or returns undefined when
+ * a part is empty. Keys may be written as in config.al, where the settings
+ * live under "agentlang".
+ */
+export function parseConfigKey(key: string): string[] | undefined {
+  const path = key.trim().split('.');
+  if (path.some(p => p.length === 0)) return undefined;
+  return path[0] === 'agentlang' && path.length > 1 ? path.slice(1) : path;
+}
+
+// ['agentlang.ai', 0, 'name'] is printed as agentlang.ai[0].name
+export function formatConfigPath(segments: (string | number)[]): string {
+  return segments
+    .map((segment, i) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      if (i > 0 && /[^\w.]/.test(segment)) return `["${segment}"]`;
+      return i === 0 ? segment : `.${segment}`;
+    })
+    .join('');
+}
+
+/**
+ * Parses repeatable --set key.path=value flags.
+ */
+export function parseSetOverrides(values: string[]): ConfigOverride[] {
+  return values.map(value => {
+    const eq = value.indexOf('=');
+    const key = value.substring(0, Math.max(eq, 0)).trim();
+    const path = eq > 0 ? parseConfigKey(key) : undefined;
+    if (!path) {
+      throw new ConfigError(`Invalid --set value "${value}", expected key.path=value as in --set service.port=8090`);
+    }
+    return { path, value: parseConfigValue(value.substring(eq + 1)), origin: `--set ${key}` };
+  });
+}
+
+/**
+ * Reads overrides from environment variables such as AGENTLANG__SERVICE__PORT,
+ * where each double underscore separates two keys of the path. Keys are
+ * matched case-insensitively when the overrides are applied.
+ */
+export function envOverrides(env: NodeJS.ProcessEnv = process.env): ConfigOverride[] {
+  return Object.entries(env)
+    .filter(([name, value]) => name.startsWith(envOverlayPrefix) && value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => {
+      const path = name.substring(envOverlayPrefix.length).toLowerCase().split('__');
+      if (path.some(p => p.length === 0)) {
+        throw new ConfigError(`Invalid configuration variable ${name}, expected ${envOverlayPrefix}KEY__SUBKEY`);
+      }
+      return { path, value: parseConfigValue(value as string), origin: name };
+    });
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merges overlay into base: objects are merged key by key, any other value of
+ * the overlay (including arrays) replaces the one of the base.
+ */
+export function deepMerge(base: Record<string, unknown>, overlay: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value) ? deepMerge(current, value) : value;
+  }
+  return result;
+}
+
+// Existing key matching name regardless of case, or name itself
+export function resolveKey(target: Record<string, unknown>, name: string): string {
+  return Object.keys(target).find(k => k.toLowerCase() === name.toLowerCase()) ?? name;
+}
+
+/**
+ * Returns a copy of the configuration with the overrides applied in order,
+ * creating intermediate objects as needed. Only the objects along each path
+ * are copied, the rest of the configuration is shared with the original.
+ */
+export function applyOverrides<T extends object>(config: T, overrides: ConfigOverride[]): T {
+  const result = { ...config } as Record<string, unknown>;
+  for (const { path, value, origin } of overrides) {
+    let target = result;
+    path.forEach((name, i) => {
+      const key = resolveKey(target, name);
+      if (i === path.length - 1) {
+        target[key] = value;
+        return;
+      }
+      const next = target[key];
+      if (next !== undefined && !isPlainObject(next)) {
+        throw new ConfigError(`Cannot apply ${origin}: ${path.slice(0, i + 1).join('.')} is not an object`);
+      }
+      const copy = { ...next };
+      target[key] = copy;
+      target = copy;
+    });
+  }
+  return result as T;
+}
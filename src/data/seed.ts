@@ -0,0 +1,227 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import yaml from 'yaml';
+import type { Config } from 'agentlang/out/runtime/state.js';
+import { appDirOf } from '../config/envFiles.js';
+import { formatAttributes, formatValue } from './statements.js';
+import { withLoaderOutputOnStderr } from '../utils/loaderOutput.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modLoader: typeof import('agentlang/out/runtime/loader.js') = await import(`${agPath}/out/runtime/loader.js`);
+const { load } = modLoader;
+const modDefs: typeof import('agentlang/out/runtime/defs.js') = await import(`${agPath}/out/runtime/defs.js`);
+const { setRuntimeMode_prod } = modDefs;
+const modDatabase: typeof import('agentlang/out/runtime/resolvers/sqldb/database.js') = await import(
+  `${agPath}/out/runtime/resolvers/sqldb/database.js`
+);
+const { initDatabase } = modDatabase;
+const modInterpreter: typeof import('agentlang/out/runtime/interpreter.js') = await import(
+  `${agPath}/out/runtime/interpreter.js`
+);
+const { parseAndEvaluateStatement } = modInterpreter;
+const modModule: typeof import('agentlang/out/runtime/module.js') = await import(`${agPath}/out/runtime/module.js`);
+const { getEntity, getRelationship, isEntity, isRelationship } = modModule;
+const modUtil: typeof import('agentlang/out/runtime/util.js') = await import(`${agPath}/out/runtime/util.js`);
+const { makeFqName, splitFqName } = modUtil;
+
+// Fixtures of an app are read from this directory when no files are given
+export const seedDir = 'seeds';
+
+const fixtureExtensions = ['.json', '.yaml', '.yml'];
+
+export interface SeedResult {
+  files: string[];
+  records: number;
+  links: number;
+}
+
+// A record to seed, under the chain of its contains parents
+interface SeedStep {
+  chain: { relationship?: string; entity: string; attributes: Record<string, unknown> }[];
+}
+
+// A between link from the last record of a chain to an instance of another entity
+interface SeedLink extends SeedStep {
+  relationship: string;
+  entity: string;
+  idAttribute: string;
+  id: unknown;
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function idAttributeOf(entity: string): string {
+  const [moduleName, entryName] = splitFqName(entity);
+  const idAttribute = getEntity(entryName, moduleName)?.getIdAttributeName();
+  if (!idAttribute) {
+    throw new Error(`${entity} has no @id attribute, so its records cannot be seeded`);
+  }
+  return idAttribute;
+}
+
+/**
+ * Splits the records of an entity in a fixture into the steps that upsert
+ * them, their contained children included, and the between links to make
+ * once every record exists.
+ */
+function planRecords(
+  where: string,
+  entity: string,
+  value: unknown,
+  parents: SeedStep['chain'],
+  relationship: string | undefined,
+  steps: SeedStep[],
+  links: SeedLink[],
+): void {
+  const moduleName = splitFqName(entity)[0];
+  const idAttribute = idAttributeOf(entity);
+  asList(value).forEach((record, index) => {
+    const at = `${where}: ${entity} record ${index + 1}`;
+    if (!isPlainObject(record)) {
+      throw new Error(`${at} is not an object`);
+    }
+    if (record[idAttribute] === undefined || record[idAttribute] === null) {
+      throw new Error(`${at} has no value for its @id attribute ${idAttribute}, which seeding relies on`);
+    }
+    const attributes: Record<string, unknown> = {};
+    const related: [string, unknown][] = [];
+    for (const [key, attributeValue] of Object.entries(record)) {
+      const relName = key.includes('/') ? key : makeFqName(moduleName, key);
+      if (isRelationship(relName)) {
+        related.push([relName, attributeValue]);
+      } else {
+        attributes[key] = attributeValue;
+      }
+    }
+    const chain = [...parents, { relationship, entity, attributes }];
+    steps.push({ chain });
+    for (const [relName, relValue] of related) {
+      const [relModule, relEntry] = splitFqName(relName);
+      const rel = getRelationship(relEntry, relModule);
+      if (rel.isContains()) {
+        if (rel.parentNode().path.asFqName() !== entity) {
+          throw new Error(`${at} is contained by ${relName}, nest it under its parent instead`);
+        }
+        planRecords(where, rel.childNode().path.asFqName(), relValue, chain, relName, steps, links);
+      } else {
+        const other = (rel.node1.path.asFqName() === entity ? rel.node2 : rel.node1).path.asFqName();
+        const otherId = idAttributeOf(other);
+        for (const id of asList(relValue)) {
+          if (isPlainObject(id) || Array.isArray(id)) {
+            throw new Error(`${at} should link ${relName} by the ${otherId} of ${other}, not by records`);
+          }
+          links.push({ chain, relationship: relName, entity: other, idAttribute: otherId, id });
+        }
+      }
+    }
+  });
+}
+
+function pattern(step: SeedStep, link?: SeedLink): string {
+  const [first, ...rest] = step.chain;
+  const parts = [`${first.entity} {${formatAttributes(first.attributes)}}`];
+  if (rest.length > 0) {
+    parts.push(`${rest[0].relationship} {${pattern({ chain: rest }, link)}}`);
+  } else if (link) {
+    parts.push(`${link.relationship} {${link.entity} {${link.idAttribute}? ${formatValue(link.id)}}}`);
+  }
+  return parts.join(', ');
+}
+
+async function readFixture(file: string): Promise<unknown> {
+  const text = await readFile(file, 'utf-8');
+  try {
+    return path.extname(file) === '.json' ? JSON.parse(text) : yaml.parse(text);
+  } catch (error) {
+    throw new Error(
+      `${path.relative(process.cwd(), file)} is not valid: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Fixture files to seed, given as files or directories; the fixtures of a
+ * directory are taken in the order of their names.
+ */
+export async function resolveFixtureFiles(appDir: string, files: string[]): Promise<string[]> {
+  const targets = files.length > 0 ? files.map(f => path.resolve(process.cwd(), f)) : [path.join(appDir, seedDir)];
+  const result: string[] = [];
+  for (const target of targets) {
+    if (!existsSync(target)) {
+      throw new Error(`Fixture ${path.relative(process.cwd(), target)} does not exist`);
+    }
+    if ((await stat(target)).isDirectory()) {
+      const names = (await readdir(target)).filter(name => fixtureExtensions.includes(path.extname(name))).sort();
+      result.push(...names.map(name => path.join(target, name)));
+    } else {
+      result.push(target);
+    }
+  }
+  return result;
+}
+
+/**
+ * Seeds the loaded app from fixture files, which map `Module/Entity` names
+ * to records. A key of a record that names a relationship of its entity
+ * holds the contained children, or the @id values of the instances to link
+ * for a between relationship. Records are upserted by their @id, so seeding
+ * again updates them in place, and the links are made once all records of
+ * all files exist.
+ */
+export async function seedFixtures(files: string[]): Promise<SeedResult> {
+  const steps: SeedStep[] = [];
+  const links: SeedLink[] = [];
+  for (const file of files) {
+    const where = path.relative(process.cwd(), file);
+    const fixture = await readFixture(file);
+    if (!isPlainObject(fixture)) {
+      throw new Error(`${where} should map Module/Entity names to records`);
+    }
+    for (const [entity, records] of Object.entries(fixture)) {
+      if (!entity.includes('/') || !isEntity(entity)) {
+        throw new Error(`${where}: ${entity} is not an entity, expected a Module/Entity name`);
+      }
+      planRecords(where, entity, records, [], undefined, steps, links);
+    }
+  }
+  for (const step of steps) {
+    await parseAndEvaluateStatement(`{${pattern(step)}, @upsert}`);
+  }
+  for (const link of links) {
+    await parseAndEvaluateStatement(`{${pattern(link, link)}, @upsert}`);
+  }
+  return { files, records: steps.length, links: links.length };
+}
+
+/**
+ * Loads the app and connects to its store to read or write its data. The
+ * schema must be up to date: the runtime refuses to connect in production
+ * mode otherwise. With `quiet`, the progress lines the loader prints go to
+ * stderr.
+ */
+export async function openAppDatabase(fileName: string, config: Config, options?: { quiet?: boolean }): Promise<void> {
+  setRuntimeMode_prod();
+  const loadApp = () => load(fileName);
+  await (options?.quiet ? withLoaderOutputOnStderr(loadApp) : loadApp());
+  await initDatabase(config.store);
+}
+
+// Loads the app and seeds its database from fixture files, or from the fixtures under its seeds directory
+export async function seedApp(fileName: string, config: Config, files: string[]): Promise<SeedResult> {
+  const fixtures = await resolveFixtureFiles(appDirOf(fileName), files);
+  await openAppDatabase(fileName, config);
+  return seedFixtures(fixtures);
+}
@@ -0,0 +1,22 @@
+// Formats values as literals of Agentlang statements, as the REPL's inst helper does
+
+export function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  } else if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  } else if (value === null || value === undefined) {
+    return 'nil';
+  } else if (typeof value === 'object') {
+    return `{${formatAttributes(value as Record<string, unknown>)}}`;
+  }
+  return JSON.stringify(value) ?? 'nil';
+}
+
+export function formatAttributes(attributes: Record<string, unknown>): string {
+  return Object.entries(attributes)
+    .map(([key, value]) => `${key} ${formatValue(value)}`)
+    .join(', ');
+}
@@ -0,0 +1,404 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import type { Config } from 'agentlang/out/runtime/state.js';
+import type { AttributeSpec, Instance } from 'agentlang/out/runtime/module.js';
+import { parseCsv, toCsv } from './csv.js';
+import { openAppDatabase } from './seed.js';
+import { formatAttributes, formatValue } from './statements.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modDefs: typeof import('agentlang/out/runtime/defs.js') = await import(`${agPath}/out/runtime/defs.js`);
+const { ParentAttributeName, PathAttributeName } = modDefs;
+const modInterpreter: typeof import('agentlang/out/runtime/interpreter.js') = await import(
+  `${agPath}/out/runtime/interpreter.js`
+);
+const { lookupAllInstances, parseAndEvaluateStatement } = modInterpreter;
+const modModule: typeof import('agentlang/out/runtime/module.js') = await import(`${agPath}/out/runtime/module.js`);
+const {
+  fetchModule,
+  getEntity,
+  getRelationship,
+  getUserModuleNames,
+  isArrayAttribute,
+  isBetweenRelationship,
+  isEntity,
+  isObjectAttribute,
+  isRelationship,
+} = modModule;
+const modUtil: typeof import('agentlang/out/runtime/util.js') = await import(`${agPath}/out/runtime/util.js`);
+const { fqNameFromPath, makeFqName, restoreFqName, splitFqName } = modUtil;
+
+export const dataFormats = ['json', 'ndjson', 'csv'] as const;
+
+export type DataFormat = (typeof dataFormats)[number];
+
+export function isDataFormat(value: string): value is DataFormat {
+  return (dataFormats as readonly string[]).includes(value);
+}
+
+// Records of an entity, or the links of a between relationship
+export interface EntityData {
+  entity: string;
+  records: Record<string, unknown>[];
+}
+
+export interface ImportFailure {
+  entity: string;
+  // Path of the record, or the paths of the instances of a link
+  record: string;
+  message: string;
+}
+
+export interface ImportResult {
+  records: number;
+  links: number;
+  failures: ImportFailure[];
+}
+
+interface AppEntities {
+  // Parents first, then the entities they contain
+  entities: string[];
+  relationships: string[];
+  parents: Map<string, string[]>;
+}
+
+function appEntities(): AppEntities {
+  const result: AppEntities = { entities: [], relationships: [], parents: new Map() };
+  for (const moduleName of getUserModuleNames()) {
+    const mod = fetchModule(moduleName);
+    result.entities.push(...mod.getEntityNames().map(name => makeFqName(moduleName, name)));
+    result.relationships.push(...mod.getBetweenRelationshipNames().map(name => makeFqName(moduleName, name)));
+    for (const rel of mod.getContainsRelationshipEntries()) {
+      const child = rel.childNode().path.asFqName();
+      result.parents.set(child, [...(result.parents.get(child) ?? []), rel.parentNode().path.asFqName()]);
+    }
+  }
+  const depth = (entity: string, seen: Set<string>): number =>
+    seen.has(entity)
+      ? 0
+      : 1 + Math.max(-1, ...(result.parents.get(entity) ?? []).map(p => depth(p, new Set([...seen, entity]))));
+  const depths = new Map(result.entities.map(e => [e, depth(e, new Set())]));
+  result.entities.sort((a, b) => (depths.get(a) ?? 0) - (depths.get(b) ?? 0));
+  return result;
+}
+
+function isBetween(name: string): boolean {
+  const [moduleName, entryName] = splitFqName(name);
+  return isRelationship(name) && isBetweenRelationship(entryName, moduleName);
+}
+
+function nodesOf(relationship: string): [string, string] {
+  const [moduleName, entryName] = splitFqName(relationship);
+  const rel = getRelationship(entryName, moduleName);
+  return [rel.node1.alias, rel.node2.alias];
+}
+
+function attributesOf(entity: string): Map<string, AttributeSpec> {
+  const [moduleName, entryName] = splitFqName(entity);
+  return getEntity(entryName, moduleName)?.getUserAttributes() ?? new Map<string, AttributeSpec>();
+}
+
+// Records of entities and links of relationships in exported data, counted as import counts them
+export function dataCounts(data: EntityData[]): { records: number; links: number } {
+  const count = (links: boolean) =>
+    data.filter(d => isEntity(d.entity) !== links).reduce((n, d) => n + d.records.length, 0);
+  return { records: count(false), links: count(true) };
+}
+
+// Columns of the records of an entity or of the links of a relationship
+function columnsOf(entity: string): string[] {
+  return isEntity(entity) ? [...attributesOf(entity).keys(), PathAttributeName, ParentAttributeName] : nodesOf(entity);
+}
+
+function exportedRecord(entity: string, inst: Instance): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const column of columnsOf(entity)) {
+    const value: unknown = inst.lookup(column);
+    if (value !== undefined) record[column] = value;
+  }
+  return record;
+}
+
+/**
+ * Reads the records of the entities of an app, with the paths that place
+ * contained records under their parents, and the links of its between
+ * relationships. Selected entities bring the entities that contain them,
+ * and relationships are exported when both of their entities are.
+ */
+export async function exportData(
+  fileName: string,
+  config: Config,
+  selected: string[],
+  options?: { quiet?: boolean },
+): Promise<EntityData[]> {
+  await openAppDatabase(fileName, config, options);
+  const app = appEntities();
+  const unknown = selected.filter(name => !app.entities.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `${unknown.join(', ')} ${unknown.length === 1 ? 'is not an entity' : 'are not entities'} of the app`,
+    );
+  }
+  let entities = app.entities;
+  if (selected.length > 0) {
+    const wanted = new Set<string>();
+    const want = (entity: string) => {
+      if (wanted.has(entity)) return;
+      wanted.add(entity);
+      app.parents.get(entity)?.forEach(want);
+    };
+    selected.forEach(want);
+    entities = entities.filter(e => wanted.has(e));
+  }
+  const relationships = app.relationships.filter(rel => {
+    const [moduleName, entryName] = splitFqName(rel);
+    const r = getRelationship(entryName, moduleName);
+    return entities.includes(r.node1.path.asFqName()) && entities.includes(r.node2.path.asFqName());
+  });
+  const data: EntityData[] = [];
+  for (const entity of [...entities, ...relationships]) {
+    const instances = await lookupAllInstances(entity);
+    data.push({ entity, records: instances.map(inst => exportedRecord(entity, inst)) });
+  }
+  return data;
+}
+
+// Exported data as a JSON object keyed by entity, or as a line per record
+export function formatData(data: EntityData[], format: 'json' | 'ndjson'): string {
+  if (format === 'json') {
+    return `${JSON.stringify(Object.fromEntries(data.map(d => [d.entity, d.records])), null, 2)}\n`;
+  }
+  return data.flatMap(d => d.records.map(record => `${JSON.stringify({ entity: d.entity, record })}\n`)).join('');
+}
+
+// Module/Entity as a file name; module names may have dots, entity names may not
+function csvFileName(entity: string): string {
+  return `${splitFqName(entity).join('.')}.csv`;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value as string | number | boolean);
+}
+
+// Writes a CSV file per entity and relationship to a directory, returning the files
+export async function writeCsvData(data: EntityData[], dir: string): Promise<string[]> {
+  await mkdir(dir, { recursive: true });
+  const files: string[] = [];
+  for (const { entity, records } of data) {
+    const columns = columnsOf(entity);
+    const file = path.join(dir, csvFileName(entity));
+    await writeFile(file, toCsv([columns, ...records.map(record => columns.map(c => csvCell(record[c])))]));
+    files.push(file);
+  }
+  return files;
+}
+
+// Format of the data to import, from the extension of a file; directories hold CSV files
+export async function inferDataFormat(input: string): Promise<DataFormat | undefined> {
+  if (existsSync(input) && (await stat(input)).isDirectory()) return 'csv';
+  const ext = path.extname(input).substring(1);
+  return ext === 'jsonl' ? 'ndjson' : isDataFormat(ext) ? ext : undefined;
+}
+
+const numericTypes = new Set(['Int', 'Number', 'Float', 'Decimal']);
+const textualTypes = new Set(['String', 'Email', 'UUID', 'DateTime', 'Date', 'Time', 'Path', 'URL', 'Password']);
+
+// Value of a CSV cell as the type of its attribute; empty cells are left unset
+function csvValue(spec: AttributeSpec | undefined, cell: string): unknown {
+  if (cell === '') return undefined;
+  if (spec && !isArrayAttribute(spec) && !isObjectAttribute(spec)) {
+    if (numericTypes.has(spec.type)) return Number(cell);
+    if (spec.type === 'Boolean') return cell === 'true';
+    if (textualTypes.has(spec.type)) return cell;
+  }
+  try {
+    return JSON.parse(cell) as unknown;
+  } catch {
+    return cell;
+  }
+}
+
+async function readCsvData(input: string): Promise<EntityData[]> {
+  let files = [input];
+  if ((await stat(input)).isDirectory()) {
+    const names = (await readdir(input)).filter(name => name.endsWith('.csv')).sort();
+    files = names.map(name => path.join(input, name));
+  }
+  const data: EntityData[] = [];
+  for (const file of files) {
+    const base = path.basename(file, '.csv');
+    const entity = makeFqName(base.substring(0, base.lastIndexOf('.')), base.substring(base.lastIndexOf('.') + 1));
+    let rows: string[][];
+    try {
+      rows = parseCsv(await readFile(file, 'utf-8'));
+    } catch (error) {
+      throw new Error(`${file} is not valid CSV: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const [columns = [], ...cells] = rows;
+    const specs = isEntity(entity) ? attributesOf(entity) : new Map<string, AttributeSpec>();
+    data.push({
+      entity,
+      records: cells.map(row => {
+        const record: Record<string, unknown> = {};
+        columns.forEach((c, i) => {
+          const value = csvValue(specs.get(c), row[i] ?? '');
+          if (value !== undefined) record[c] = value;
+        });
+        return record;
+      }),
+    });
+  }
+  return data;
+}
+
+async function readData(input: string, format: DataFormat): Promise<EntityData[]> {
+  if (format === 'csv') return readCsvData(input);
+  const text = await readFile(input, 'utf-8');
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`${input} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`${input} should map Module/Entity names to records`);
+    }
+    return Object.entries(parsed).map(([entity, records]) => ({
+      entity,
+      records: (Array.isArray(records) ? records : [records]) as Record<string, unknown>[],
+    }));
+  }
+  const data = new Map<string, Record<string, unknown>[]>();
+  text.split('\n').forEach((line, index) => {
+    if (line.trim() === '') return;
+    let item: { entity?: unknown; record?: unknown };
+    try {
+      item = JSON.parse(line) as typeof item;
+    } catch {
+      throw new Error(`${input} line ${index + 1} is not valid JSON`);
+    }
+    if (typeof item.entity !== 'string' || typeof item.record !== 'object' || item.record === null) {
+      throw new Error(`${input} line ${index + 1} should have an entity and a record`);
+    }
+    data.set(item.entity, [...(data.get(item.entity) ?? []), item.record as Record<string, unknown>]);
+  });
+  return [...data].map(([entity, records]) => ({ entity, records }));
+}
+
+interface ImportedRecord {
+  entity: string;
+  record: Record<string, unknown>;
+}
+
+function pathOf(item: ImportedRecord): string | undefined {
+  const value = item.record[PathAttributeName];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function parentOf(item: ImportedRecord): string | undefined {
+  const value = item.record[ParentAttributeName];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Upserts a record by its @id, under its parent when it is contained, and
+ * makes a link from it when one is given.
+ */
+async function upsertRecord(item: ImportedRecord, link?: string): Promise<void> {
+  const attributes = Object.fromEntries(
+    [...attributesOf(item.entity).keys()].filter(a => item.record[a] !== undefined).map(a => [a, item.record[a]]),
+  );
+  let pattern = `${item.entity} {${formatAttributes(attributes)}}${link ? `, ${link}` : ''}`;
+  const parent = parentOf(item);
+  if (parent) {
+    const recordPath = pathOf(item);
+    if (!recordPath?.startsWith(`${parent}/`)) {
+      throw new Error(`Its ${PathAttributeName} does not lie under its ${ParentAttributeName} ${parent}`);
+    }
+    const relationship = restoreFqName(recordPath.substring(parent.length + 1).split('/')[0]);
+    pattern = `${fqNameFromPath(parent)} {${PathAttributeName}? ${formatValue(parent)}}, ${relationship} {${pattern}}`;
+  }
+  const result: unknown = await parseAndEvaluateStatement(`{${pattern}, @upsert}`);
+  if (parent && Array.isArray(result) && result.length === 0) {
+    throw new Error(`Its parent ${parent} does not exist`);
+  }
+}
+
+function failureOf(entity: string, record: string, error: unknown): ImportFailure {
+  return { entity, record, message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Imports exported data into an app: records are upserted by their @id,
+ * parents before the records they contain, then the links of between
+ * relationships are made from a linked record of the import. A record that
+ * fails is reported and the import goes on with the others.
+ */
+export async function importData(
+  fileName: string,
+  config: Config,
+  input: string,
+  format: DataFormat,
+): Promise<ImportResult> {
+  await openAppDatabase(fileName, config);
+  const data = await readData(input, format);
+  const unknown = data.map(d => d.entity).filter(name => !isEntity(name) && !isBetween(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `${unknown.join(', ')} ${unknown.length === 1 ? 'is not an entity or between relationship' : 'are not entities or between relationships'} of the app`,
+    );
+  }
+  const records: ImportedRecord[] = data
+    .filter(d => isEntity(d.entity))
+    .flatMap(d => d.records.map(record => ({ entity: d.entity, record })));
+  const depth = (item: ImportedRecord) => parentOf(item)?.split('/').length ?? 0;
+  records.sort((a, b) => depth(a) - depth(b));
+  const result: ImportResult = { records: 0, links: 0, failures: [] };
+  for (const item of records) {
+    try {
+      await upsertRecord(item);
+      result.records++;
+    } catch (error) {
+      result.failures.push(failureOf(item.entity, pathOf(item) ?? JSON.stringify(item.record), error));
+    }
+  }
+  const byPath = new Map(records.flatMap(item => (pathOf(item) ? [[pathOf(item), item] as const] : [])));
+  for (const { entity: relationship, records: links } of data.filter(d => !isEntity(d.entity))) {
+    const [moduleName, entryName] = splitFqName(relationship);
+    const rel = getRelationship(entryName, moduleName);
+    for (const record of links) {
+      const [from, to] = [record[rel.node1.alias], record[rel.node2.alias]].map(String);
+      try {
+        const own = byPath.get(from) ? { item: byPath.get(from), other: to } : { item: byPath.get(to), other: from };
+        if (!own.item) {
+          throw new Error(`Neither ${from} nor ${to} is in the import`);
+        }
+        const otherEntity = fqNameFromPath(own.other);
+        const found: unknown = otherEntity
+          ? await parseAndEvaluateStatement(`{${otherEntity} {${PathAttributeName}? ${formatValue(own.other)}}}`)
+          : [];
+        if (!Array.isArray(found) || found.length === 0) {
+          throw new Error(`${own.other} does not exist`);
+        }
+        await upsertRecord(
+          own.item,
+          `${relationship} {${otherEntity} {${PathAttributeName}? ${formatValue(own.other)}}}`,
+        );
+        result.links++;
+      } catch (error) {
+        result.failures.push(failureOf(relationship, `${from} -> ${to}`, error));
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,294 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { AstUtils, CstUtils, GrammarUtils, URI, isLeafCstNode, type AstNode, type LeafCstNode } from 'langium';
+import type { AgentlangServices } from 'agentlang/out/language/agentlang-module.js';
+import type { ModuleDefinition } from 'agentlang/out/language/generated/ast.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modAst: typeof import('agentlang/out/language/generated/ast.js') = await import(
+  `${agPath}/out/language/generated/ast.js`
+);
+const { isAgentDefinition, isGenericDefBody, isRecordSchemaDefinition, isWorkflowDefinition } = modAst;
+
+const indentUnit = '  ';
+
+const openers = new Set(['{', '[', '(']);
+const closers = new Set(['}', ']', ')']);
+
+// AST types whose '(' directly follows a name or tag, as in uuid(), @default(...) or @enum(...)
+const callLike = new Set([
+  'FnCall',
+  'PropertyDefinition',
+  'EnumSpec',
+  'OneOfSpec',
+  'RefSpec',
+  'AttributeDefinition',
+  'CompositeUniqueDefinition',
+  'WorkflowDirectiveEntry',
+  'LimitClause',
+  'OffsetClause',
+  'GroupByClause',
+  'OrderByClause',
+  'AggregateFunctionSpec',
+  'NotExpr',
+]);
+
+// Blocks laid out with one entry per line
+const blockTypes = new Set(['RecordSchemaDefinition', 'GenericDefBody']);
+
+export class FormatError extends Error {
+  constructor(
+    message: string,
+    public readonly details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'FormatError';
+  }
+}
+
+interface Token {
+  leaf: LeafCstNode;
+  text: string;
+  comment: boolean;
+  lineComment: boolean;
+  startLine: number;
+  endLine: number;
+}
+
+interface Layout {
+  // Minimum and maximum number of line breaks before a token (2 leaves a blank line)
+  minBreak: number[];
+  maxBreak: number[];
+  // Spaces between a token and the next one, used to align attribute types
+  padAfter: Map<number, number>;
+}
+
+interface Line {
+  tokens: { token: Token; space: string }[];
+  blankBefore: boolean;
+}
+
+function tokensOf(root: AstNode): Token[] {
+  if (!root.$cstNode) return [];
+  const tokens: Token[] = [];
+  for (const node of CstUtils.streamCst(root.$cstNode)) {
+    if (!isLeafCstNode(node)) continue;
+    const comment = node.hidden;
+    tokens.push({
+      leaf: node,
+      text: node.text,
+      comment,
+      lineComment: comment && node.text.startsWith('//'),
+      startLine: node.range.start.line,
+      endLine: node.range.end.line,
+    });
+  }
+  return tokens;
+}
+
+function parse(text: string, services: AgentlangServices, file: string) {
+  const document = services.shared.workspace.LangiumDocumentFactory.fromString<ModuleDefinition>(
+    text,
+    URI.file(path.resolve(process.cwd(), file)),
+  );
+  const { lexerErrors, parserErrors, value } = document.parseResult;
+  const errors = [
+    ...lexerErrors.map(e => `${e.line ?? 0}:${e.column ?? 0} ${e.message}`),
+    ...parserErrors.map(e => `${e.token.startLine ?? 0}:${e.token.startColumn ?? 0} ${e.message}`),
+  ];
+  return { module: value, errors };
+}
+
+function computeLayout(module: ModuleDefinition, tokens: Token[]): Layout {
+  const minBreak = tokens.map(() => 0);
+  const maxBreak = tokens.map(() => 2);
+  const padAfter = new Map<number, number>();
+  const indexByOffset = new Map(tokens.map((t, i) => [t.leaf.offset, i]));
+  const indexOf = (node: AstNode | undefined) => (node?.$cstNode ? indexByOffset.get(node.$cstNode.offset) : undefined);
+
+  // Top level: module header, then imports on consecutive lines, then one blank line between definitions
+  const imports = (module.imports ?? []).map(indexOf).filter(i => i !== undefined);
+  imports.forEach((i, n) => {
+    minBreak[i] = n === 0 ? 2 : 1;
+    maxBreak[i] = n === 0 ? 2 : 1;
+  });
+  for (const def of module.defs ?? []) {
+    let start = indexOf(def);
+    if (start === undefined) continue;
+    // Comments directly above a definition move with it
+    while (
+      start > 0 &&
+      tokens[start - 1].comment &&
+      tokens[start].startLine - tokens[start - 1].endLine <= 1 &&
+      (start === 1 || tokens[start - 1].startLine > tokens[start - 2].endLine)
+    ) {
+      start--;
+    }
+    if (start > 0) minBreak[start] = 2;
+  }
+
+  tokens.forEach((token, i) => {
+    if (token.comment) return;
+    const owner = token.leaf.astNode;
+    // First token after this one that is not a trailing comment on the same line
+    const next = tokens.findIndex((t, j) => j > i && !(t.comment && t.startLine === token.endLine));
+    if (blockTypes.has(owner.$type) || (isWorkflowDefinition(owner) && owner.statements.length > 0)) {
+      const separator = isWorkflowDefinition(owner) ? ';' : ',';
+      if (token.text === '{' && tokens[i + 1]?.text !== '}') {
+        // Opening brace stays on the header line, entries start on the next one
+        if (i > 0 && !tokens[i - 1].lineComment) maxBreak[i] = 0;
+        if (next > 0) minBreak[next] = Math.max(minBreak[next], 1);
+      } else if (token.text === separator && next > 0 && tokens[next].text !== '}') {
+        if (!tokens[i - 1].lineComment) maxBreak[i] = 0;
+        minBreak[next] = Math.max(minBreak[next], 1);
+      } else if (token.text === '}' && tokens[i - 1]?.text !== '{') {
+        minBreak[i] = Math.max(minBreak[i], 1);
+      }
+    }
+    if (token.text === ',' && !tokens[i - 1].lineComment) {
+      maxBreak[i] = 0;
+    }
+  });
+
+  // Align the types of attributes declared in the same block
+  const alignBlock = (names: { name: string; node: AstNode }[]) => {
+    const width = Math.max(...names.map(n => n.name.length));
+    for (const { name, node } of names) {
+      const nameNode = GrammarUtils.findNodeForProperty(node.$cstNode, 'name');
+      const i = nameNode && indexByOffset.get(nameNode.offset);
+      if (i !== undefined) padAfter.set(i, width - name.length + 1);
+    }
+  };
+  for (const node of AstUtils.streamAst(module)) {
+    if (isRecordSchemaDefinition(node) && node.attributes.length > 0) {
+      alignBlock(node.attributes.map(a => ({ name: a.name, node: a })));
+    } else if (isGenericDefBody(node) && isAgentDefinition(node.$container)) {
+      alignBlock(node.attributes.map(a => ({ name: a.name, node: a })));
+    }
+  }
+
+  return { minBreak, maxBreak, padAfter };
+}
+
+// Space between two tokens printed on the same line
+function spacing(prev: Token, token: Token, original: string): string {
+  if (token.comment || prev.comment) return ' ';
+  const p = prev.text;
+  const t = token.text;
+  const owner = token.leaf.astNode.$type;
+  if ([',', ';', ')', ']', '?'].includes(t)) return '';
+  if (p === '(' || p === '[' || p === '@' || p === '.' || t === '.') return '';
+  if (t === ':') return '';
+  if (p === ':') return owner === 'WorkflowHeader' ? '' : ' ';
+  if (t === '(' && callLike.has(owner) && !openers.has(p)) return '';
+  if (p === '{') return '';
+  if (t === '}') return '';
+  if (t === '{') return openers.has(p) ? '' : ' ';
+  if (p === '}' || p === ')' || p === ']' || p === ',') return ' ';
+  // Anything else keeps the original choice between a space and no space
+  return original.length > 0 ? ' ' : '';
+}
+
+function layoutLines(tokens: Token[], layout: Layout, source: string): Line[] {
+  const lines: Line[] = [];
+  let line: Line | undefined;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const prev = tokens[i - 1];
+    let breaks = 0;
+    if (prev) {
+      breaks = Math.min(token.startLine - prev.endLine, 2);
+      if (prev.lineComment) breaks = Math.max(breaks, 1);
+      // A trailing comment stays on the line of the token it follows
+      const trailing = token.comment && token.startLine === prev.endLine;
+      if (!trailing) {
+        breaks = Math.max(breaks, layout.minBreak[i]);
+      }
+      if (!prev.lineComment) breaks = Math.min(breaks, layout.maxBreak[i]);
+      // No blank lines right inside brackets
+      if (openers.has(prev.text) || closers.has(token.text)) breaks = Math.min(breaks, 1);
+    }
+
+    if (!line || breaks > 0) {
+      line = { tokens: [], blankBefore: breaks > 1 };
+      lines.push(line);
+      line.tokens.push({ token, space: '' });
+    } else {
+      const pad = layout.padAfter.get(i - 1);
+      const original = source.substring(prev.leaf.end, token.leaf.offset);
+      const space = pad !== undefined && !token.comment ? ' '.repeat(pad) : spacing(prev, token, original);
+      line.tokens.push({ token, space });
+    }
+  }
+  return lines;
+}
+
+// Line comments lose trailing whitespace, every other token is printed as written
+function printed(token: Token): string {
+  return token.lineComment ? token.text.trimEnd() : token.text;
+}
+
+function printLines(lines: Line[]): string {
+  const stack: { line: number; indents: boolean }[] = [];
+  const out: string[] = [];
+
+  lines.forEach((line, n) => {
+    // Closing brackets at the start of a line are outdented to their opener
+    let leading = 0;
+    while (leading < line.tokens.length && !line.tokens[leading].token.comment) {
+      if (!closers.has(line.tokens[leading].token.text)) break;
+      leading++;
+    }
+    const depth = stack.slice(0, Math.max(0, stack.length - leading)).filter(s => s.indents).length;
+
+    for (const { token } of line.tokens) {
+      if (token.comment) continue;
+      if (openers.has(token.text)) stack.push({ line: n, indents: false });
+      else if (closers.has(token.text)) stack.pop();
+    }
+    // Only the innermost bracket left open on a line indents the lines below it
+    const top = stack[stack.length - 1];
+    if (top && top.line === n) top.indents = true;
+
+    if (line.blankBefore && out.length > 0) out.push('');
+    const text = line.tokens.map(({ token, space }) => space + printed(token)).join('');
+    out.push(indentUnit.repeat(depth) + text);
+  });
+
+  return `${out.join('\n')}\n`;
+}
+
+function sameTokens(a: Token[], b: Token[]): boolean {
+  return a.length === b.length && a.every((t, i) => printed(t) === printed(b[i]));
+}
+
+/**
+ * Reprints a module with the canonical layout: two-space indentation, one
+ * attribute per line with aligned types, entries of agents and top-level
+ * workflows on their own lines and a single blank line between definitions.
+ * Comments are kept where they are; other line breaks inside workflows are
+ * preserved. Throws a FormatError when the source does not parse.
+ */
+export function formatSource(text: string, services: AgentlangServices, file: string): string {
+  const { module, errors } = parse(text, services, file);
+  if (errors.length > 0) {
+    throw new FormatError(`${file} has syntax errors`, errors);
+  }
+  const tokens = tokensOf(module);
+  if (tokens.length === 0) return text;
+
+  const formatted = printLines(layoutLines(tokens, computeLayout(module, tokens), text));
+
+  // The formatter must only move whitespace around: re-parse and compare tokens
+  const check = parse(formatted, services, file);
+  if (check.errors.length > 0 || !sameTokens(tokens, tokensOf(check.module))) {
+    throw new FormatError(`Formatting ${file} would change its meaning, leaving it unchanged`);
+  }
+  return formatted;
+}
@@ -0,0 +1,239 @@
+import * as path from 'node:path';
+import http from 'node:http';
+import { existsSync } from 'node:fs';
+import * as chokidar from 'chokidar';
+import type { ApplicationSpec } from 'agentlang/out/runtime/loader.js';
+import type { Config } from 'agentlang/out/runtime/state.js';
+import type { ModuleDefinition } from 'agentlang/out/language/generated/ast.js';
+import { ui } from './ui/index.js';
+import { createValidationServices, hasErrors, validateFiles } from './validation/diagnostics.js';
+import { buildModuleModel, type ModuleModel } from './validation/model.js';
+import { resolveValidationTargets } from './validation/project.js';
+import { printTextReport } from './validation/report.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modLoader: typeof import('agentlang/out/runtime/loader.js') = await import(`${agPath}/out/runtime/loader.js`);
+const { internModule } = modLoader;
+const modModule: typeof import('agentlang/out/runtime/module.js') = await import(`${agPath}/out/runtime/module.js`);
+const { removeModule } = modModule;
+const modHttp: typeof import('agentlang/out/api/http.js') = await import(`${agPath}/out/api/http.js`);
+const { startServer } = modHttp;
+
+export interface HotReloadOptions {
+  appSpec?: ApplicationSpec;
+  config?: Config;
+  debounceMs?: number;
+}
+
+interface ModuleSnapshot {
+  module: string;
+  // Serialized model of each definition, keyed by "<kind> <Module>/<Name>"
+  definitions: Map<string, string>;
+}
+
+interface DefinitionChanges {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+// Server of the HTTP service, once it listens
+let service: http.Server | undefined;
+
+function servicePort(config?: Config): number {
+  return config?.service?.port || 8080;
+}
+
+/**
+ * Records the server of the HTTP service as the runtime starts it, since the
+ * runtime does not hand it back: http.createServer is patched until a server
+ * it creates listens on the port of the service. Servers listening on other
+ * ports are left alone, but one created elsewhere for the same port in the
+ * meantime would be taken for the service, and the patch stays in place if
+ * the service never manages to listen.
+ */
+export function captureHttpService(config?: Config): void {
+  const port = servicePort(config);
+  const createServer = http.createServer;
+  http.createServer = ((...args: unknown[]) => {
+    const server = (createServer as (...args: unknown[]) => http.Server).apply(http, args);
+    server.once('listening', () => {
+      const address = server.address();
+      if (typeof address === 'object' && address?.port === port) {
+        service = server;
+        http.createServer = createServer;
+      }
+    });
+    return server;
+  }) as typeof http.createServer;
+}
+
+function snapshotOf(model: ModuleModel): ModuleSnapshot {
+  const definitions = new Map<string, string>();
+  const add = (kind: string, name: string, value: unknown) =>
+    definitions.set(`${kind} ${model.name}/${name}`, JSON.stringify(value));
+
+  model.entities.forEach(d => add('entity', d.name, d));
+  model.records.forEach(d => add('record', d.name, d));
+  model.events.forEach(d => add('event', d.name, d));
+  model.relationships.forEach(d => add('relationship', d.name, d));
+  model.agents.forEach(d => add('agent', d.name, d));
+  model.workflows.forEach(d =>
+    add('workflow', d.name ?? `@${d.trigger?.when} ${d.trigger?.operation}:${d.trigger?.entity}`, d),
+  );
+  return { module: model.name, definitions };
+}
+
+function diffDefinitions(before: Map<string, string>, after: Map<string, string>): DefinitionChanges {
+  return {
+    added: [...after.keys()].filter(k => !before.has(k)),
+    changed: [...after.keys()].filter(k => before.has(k) && before.get(k) !== after.get(k)),
+    removed: [...before.keys()].filter(k => !after.has(k)),
+  };
+}
+
+async function restartHttpService(options: HotReloadOptions): Promise<void> {
+  if (!options.appSpec) return;
+  const server = service;
+  service = undefined;
+  if (server) {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+  captureHttpService(options.config);
+  await startServer(options.appSpec, servicePort(options.config), options.config?.service?.host, options.config);
+}
+
+/**
+ * Watches the modules of a running app and reloads the ones that change on
+ * disk: the app is re-validated, each changed module is removed and interned
+ * again, and the definitions that were added, changed or removed are printed.
+ * The database connection is kept; the HTTP service is restarted only when
+ * definitions are added or removed, since its routes are created on startup.
+ */
+export async function watchAndReload(target: string, options: HotReloadOptions): Promise<chokidar.FSWatcher> {
+  const services = createValidationServices();
+  // Keyed by absolute path, as targets may be given relative to the working directory or not
+  const snapshots = new Map<string, ModuleSnapshot>();
+  const fileOf = (file: string) => path.resolve(process.cwd(), file);
+
+  const initial = await validateFiles(resolveValidationTargets(target), services);
+  for (const result of initial) {
+    const module = result.document?.parseResult.value as ModuleDefinition | undefined;
+    if (module?.name) snapshots.set(fileOf(result.file), snapshotOf(buildModuleModel(module, result.file)));
+  }
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let reloading = Promise.resolve();
+
+  const reload = async () => {
+    const changedFiles = [...pending];
+    pending.clear();
+    ui.info(`Reloading after changes to ${changedFiles.map(f => path.relative(process.cwd(), f)).join(', ')}`);
+
+    const results = await validateFiles(resolveValidationTargets(target), createValidationServices());
+    if (hasErrors(results)) {
+      printTextReport(results);
+      // Keep the files pending so they are reloaded once the errors are fixed
+      changedFiles.forEach(f => pending.add(f));
+      ui.error('Reload skipped, the app keeps running the previous version until the errors are fixed');
+      return;
+    }
+
+    const changes: DefinitionChanges = { added: [], changed: [], removed: [] };
+    const current = new Set(results.map(r => fileOf(r.file)));
+
+    for (const [file, snapshot] of snapshots) {
+      if (current.has(file)) continue;
+      removeModule(snapshot.module);
+      snapshots.delete(file);
+      changes.removed.push(...snapshot.definitions.keys());
+    }
+
+    for (const result of results) {
+      const file = fileOf(result.file);
+      const previous = snapshots.get(file);
+      if (previous && !changedFiles.includes(file)) continue;
+      const module = result.document?.parseResult.value as ModuleDefinition | undefined;
+      if (!module?.name) continue;
+
+      const snapshot = snapshotOf(buildModuleModel(module, result.file));
+      const diff = diffDefinitions(previous?.definitions ?? new Map<string, string>(), snapshot.definitions);
+      if (previous) removeModule(previous.module);
+      await internModule(module, file);
+      snapshots.set(file, snapshot);
+
+      changes.added.push(...diff.added);
+      changes.changed.push(...diff.changed);
+      changes.removed.push(...diff.removed);
+    }
+
+    changes.added.forEach(d => ui.step('+', ' Added ', d));
+    changes.changed.forEach(d => ui.step('~', ' Changed ', d));
+    changes.removed.forEach(d => ui.step('-', ' Removed ', d));
+    if (changes.added.length + changes.changed.length + changes.removed.length === 0) {
+      ui.dim('  No definitions changed');
+    }
+
+    const schemaChanged = [...changes.added, ...changes.changed, ...changes.removed].some(
+      d => d.startsWith('entity ') || d.startsWith('relationship '),
+    );
+    if (schemaChanged) {
+      ui.warn('Database tables are not migrated while running, restart the app to apply schema changes');
+    }
+    if (changes.added.length > 0 || changes.removed.length > 0) {
+      await restartHttpService(options);
+    }
+    ui.success('Reload complete');
+  };
+
+  const schedule = (file: string) => {
+    pending.add(fileOf(file));
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      reloading = reloading.then(reload).catch((error: unknown) => {
+        ui.error(`Reload failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, options.debounceMs ?? 500);
+  };
+
+  const root = path.resolve(process.cwd(), target);
+  const appDir = path.extname(root) === '.al' ? path.dirname(root) : root;
+  const watcher = chokidar.watch(appDir, {
+    ignored: (file, stats) =>
+      path
+        .relative(appDir, file)
+        .split(path.sep)
+        .some(part => ['node_modules', '.git', 'out', 'dist'].includes(part)) ||
+      (stats?.isFile() === true && !['.al', '.json'].includes(path.extname(file))),
+    ignoreInitial: true,
+    persistent: true,
+  });
+
+  const onFile = (file: string) => {
+    const name = path.basename(file);
+    if (name === 'config.al' || name === 'app.config.json') {
+      ui.warn(`${name} changed, restart the app to apply configuration changes`);
+    } else if (path.extname(file) === '.al') {
+      schedule(file);
+    }
+  };
+
+  watcher
+    .on('add', onFile)
+    .on('change', onFile)
+    .on('unlink', onFile)
+    .on('error', (error: unknown) => {
+      ui.error(`Watcher error: ${String(error)}`);
+    });
+
+  ui.info(`Watching ${path.relative(process.cwd(), appDir) || '.'} for changes`);
+  return watcher;
+}
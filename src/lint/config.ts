@@ -0,0 +1,58 @@
+import * as path from 'node:path';
+import { existsSync, readFileSync } from 'node:fs';
+import type { DiagnosticSeverity } from '../validation/diagnostics.js';
+import { lintRules } from './rules.js';
+
+export type RuleSetting = DiagnosticSeverity | 'off';
+
+export const lintConfigFileName = 'agentlint.json';
+
+const ruleSettings: readonly string[] = ['off', 'hint', 'info', 'warning', 'error'];
+
+export interface LintConfig {
+  rules: Record<string, RuleSetting>;
+}
+
+function checkRuleSetting(rule: string, setting: unknown, origin: string): RuleSetting {
+  if (!lintRules.some(r => r.id === rule)) {
+    throw new Error(`Unknown lint rule "${rule}" in ${origin}`);
+  }
+  if (typeof setting !== 'string' || !ruleSettings.includes(setting)) {
+    throw new Error(`Invalid setting for rule "${rule}" in ${origin}. Expected one of: ${ruleSettings.join(', ')}`);
+  }
+  return setting as RuleSetting;
+}
+
+/**
+ * Resolves the severity of every rule: rule defaults, overridden by the
+ * agentlint.json of the app (or the file given with --config), overridden by
+ * --rule id=severity flags.
+ */
+export function loadLintConfig(appDir: string, configFile?: string, overrides: string[] = []): LintConfig {
+  const rules: Record<string, RuleSetting> = Object.fromEntries(lintRules.map(r => [r.id, r.defaultSeverity]));
+
+  const file = configFile
+    ? path.resolve(process.cwd(), configFile)
+    : path.resolve(process.cwd(), appDir, lintConfigFileName);
+  if (configFile && !existsSync(file)) {
+    throw new Error(`Lint config file ${configFile} does not exist`);
+  }
+  if (existsSync(file)) {
+    let parsed: { rules?: Record<string, unknown> };
+    try {
+      parsed = JSON.parse(readFileSync(file, 'utf-8')) as { rules?: Record<string, unknown> };
+    } catch (error) {
+      throw new Error(`Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    for (const [rule, setting] of Object.entries(parsed.rules ?? {})) {
+      rules[rule] = checkRuleSetting(rule, setting, path.relative(process.cwd(), file));
+    }
+  }
+
+  for (const override of overrides) {
+    const [rule, setting] = override.split('=', 2);
+    rules[rule] = checkRuleSetting(rule, setting, '--rule');
+  }
+
+  return { rules };
+}
@@ -0,0 +1,233 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { GrammarUtils, type AstNode, type CstNode } from 'langium';
+import type { Module } from 'agentlang/out/runtime/module.js';
+import type { AttributeDefinition, ModuleDefinition } from 'agentlang/out/language/generated/ast.js';
+import {
+  hasErrors,
+  validateFiles,
+  type FileValidationResult,
+  type ValidationDiagnostic,
+} from '../validation/diagnostics.js';
+import { findProjectFiles } from '../validation/project.js';
+import type { LintConfig } from './config.js';
+import { lintRules, type LintFinding } from './rules.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modCli: typeof import('agentlang/out/cli/main.js') = await import(`${agPath}/out/cli/main.js`);
+const { runPreInitTasks } = modCli;
+const modLoader: typeof import('agentlang/out/runtime/loader.js') = await import(`${agPath}/out/runtime/loader.js`);
+const { load } = modLoader;
+const modRuntimeModule: typeof import('agentlang/out/runtime/module.js') = await import(
+  `${agPath}/out/runtime/module.js`
+);
+const { fetchModule, getUserModuleNames } = modRuntimeModule;
+const modAst: typeof import('agentlang/out/language/generated/ast.js') = await import(
+  `${agPath}/out/language/generated/ast.js`
+);
+const { isEntityDefinition, isEventDefinition, isPublicEventDefinition, isRecordDefinition, isRelationshipDefinition } =
+  modAst;
+
+export interface LintResult {
+  results: FileValidationResult[];
+  // Set when the project has parse or validation errors and could not be linted
+  invalid: boolean;
+  fixed: number;
+}
+
+interface Definition {
+  file: string;
+  node: AstNode & { name: string; schema?: { attributes: AttributeDefinition[] } };
+}
+
+interface TextEdit {
+  offset: number;
+  text: string;
+}
+
+// Source positions of every schema and relationship definition, keyed by Module/Name
+function indexDefinitions(results: FileValidationResult[]): Map<string, Definition> {
+  const index = new Map<string, Definition>();
+  for (const result of results) {
+    const module = result.document?.parseResult.value as ModuleDefinition | undefined;
+    if (!module?.name) continue;
+    for (const def of module.defs ?? []) {
+      const node = isPublicEventDefinition(def) ? def.def : def;
+      if (
+        isEntityDefinition(node) ||
+        isEventDefinition(node) ||
+        isRecordDefinition(node) ||
+        isRelationshipDefinition(node)
+      ) {
+        index.set(`${module.name}/${String(node.name)}`, { file: result.file, node: node as Definition['node'] });
+      }
+    }
+  }
+  return index;
+}
+
+function nameNode(node: AstNode): CstNode | undefined {
+  return GrammarUtils.findNodeForProperty(node.$cstNode, 'name') ?? node.$cstNode;
+}
+
+function locate(finding: LintFinding, index: Map<string, Definition>): { file: string; node: CstNode } | undefined {
+  const def = index.get(`${finding.moduleName}/${finding.entryName}`);
+  if (!def) return undefined;
+  const target = finding.attribute ? def.node.schema?.attributes.find(a => a.name === finding.attribute) : def.node;
+  const node = target && nameNode(target);
+  return node && { file: def.file, node };
+}
+
+/**
+ * Inline suppressions, written as line comments:
+ *   // agent-lint-disable rule-a, rule-b            (whole file)
+ *   // agent-lint-disable-next-line rule-a, rule-b  (the following line)
+ * Without rule ids every rule is disabled.
+ */
+function isSuppressed(d: ValidationDiagnostic, lines: string[]): boolean {
+  const matches = (comment: RegExpMatchArray | null): boolean => {
+    if (!comment) return false;
+    const rules = comment[1]
+      .split(',')
+      .map(r => r.trim())
+      .filter(r => r.length > 0);
+    return rules.length === 0 || (d.code !== undefined && rules.includes(d.code));
+  };
+  const previous = lines[d.line - 2] ?? '';
+  if (matches(previous.match(/\/\/\s*agent-lint-disable-next-line\b(.*)$/))) {
+    return true;
+  }
+  return lines.some(line => matches(line.match(/\/\/\s*agent-lint-disable(?![\w-])(.*)$/)));
+}
+
+// Mechanical fixes, keyed by rule id
+const fixes: Record<string, (def: Definition['node'], text: string) => TextEdit | undefined> = {
+  'entity-id': (def, text) => {
+    const attributes = def.schema?.attributes ?? [];
+    const first = attributes[0]?.$cstNode;
+    if (!first || attributes.some(a => a.name === 'id')) return undefined;
+    const lineStart = text.lastIndexOf('\n', first.offset - 1) + 1;
+    const indent = text.substring(lineStart, first.offset);
+    const separator = /^\s*$/.test(indent) ? `\n${indent}` : ' ';
+    return { offset: first.offset, text: `id UUID @id @default(uuid()),${separator}` };
+  },
+};
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  let updated = text;
+  for (const edit of [...edits].sort((a, b) => b.offset - a.offset)) {
+    updated = updated.substring(0, edit.offset) + edit.text + updated.substring(edit.offset);
+  }
+  return updated;
+}
+
+// Moves diagnostics below an inserted edit down by the number of lines it adds
+function shiftDiagnostics(diagnostics: ValidationDiagnostic[], text: string, edits: TextEdit[]): void {
+  for (const edit of edits) {
+    const added = edit.text.split('\n').length - 1;
+    const line = text.substring(0, edit.offset).split('\n').length;
+    for (const d of diagnostics) {
+      if (d.line > line) {
+        d.line += added;
+        d.endLine += added;
+      }
+    }
+  }
+}
+
+async function loadProjectModules(appDir: string, moduleNames: Set<string>): Promise<Module[]> {
+  const r: boolean = await runPreInitTasks();
+  if (!r) {
+    throw new Error('Failed to initialize runtime');
+  }
+  let modules: Module[] = [];
+  await load(path.resolve(process.cwd(), appDir), undefined, () => {
+    modules = getUserModuleNames()
+      .filter(name => moduleNames.has(name))
+      .map(name => fetchModule(name));
+  });
+  return modules;
+}
+
+/**
+ * Lints every module of an app. The project is validated first; lint rules
+ * only run on projects without errors, against the modules as loaded by the
+ * runtime. Findings are reported at the definition they concern, filtered by
+ * inline suppressions and, with `fix`, resolved in place where possible.
+ */
+export async function lintProject(
+  appDir: string,
+  config: LintConfig,
+  options?: { fix?: boolean },
+): Promise<LintResult> {
+  const files = findProjectFiles(appDir);
+  if (files.length === 0) {
+    throw new Error(`No Agentlang source files found in ${appDir}`);
+  }
+  const validated = await validateFiles(files);
+  if (hasErrors(validated)) {
+    return { results: validated, invalid: true, fixed: 0 };
+  }
+
+  const index = indexDefinitions(validated);
+  const moduleNames = new Set([...index.keys()].map(key => key.substring(0, key.lastIndexOf('/'))));
+  const modules = await loadProjectModules(appDir, moduleNames);
+
+  const results = new Map(validated.map(r => [r.file, { ...r, diagnostics: [] as ValidationDiagnostic[] }]));
+  const edits = new Map<string, TextEdit[]>();
+  let fixed = 0;
+
+  for (const rule of lintRules) {
+    const setting = config.rules[rule.id];
+    if (setting === 'off') continue;
+    for (const finding of rule.check(modules)) {
+      // Entries generated by the runtime have no source and are not reported
+      const location = locate(finding, index);
+      if (!location) continue;
+      const result = results.get(location.file);
+      if (!result) continue;
+
+      const { range } = location.node;
+      const diagnostic: ValidationDiagnostic = {
+        file: location.file,
+        line: range.start.line + 1,
+        column: range.start.character + 1,
+        endLine: range.end.line + 1,
+        endColumn: range.end.character + 1,
+        severity: setting,
+        source: 'lint',
+        code: rule.id,
+        message: finding.message,
+      };
+      if (isSuppressed(diagnostic, result.text.split(/\r?\n/))) continue;
+
+      const def = index.get(`${finding.moduleName}/${finding.entryName}`);
+      const edit = options?.fix && def && fixes[rule.id]?.(def.node, result.text);
+      if (edit) {
+        edits.set(location.file, [...(edits.get(location.file) ?? []), edit]);
+        fixed++;
+      } else {
+        result.diagnostics.push(diagnostic);
+      }
+    }
+  }
+
+  for (const result of results.values()) {
+    const fileEdits = edits.get(result.file);
+    if (fileEdits) {
+      shiftDiagnostics(result.diagnostics, result.text, fileEdits);
+      result.text = applyEdits(result.text, fileEdits);
+      await fs.writeFile(path.resolve(process.cwd(), result.file), result.text, 'utf-8');
+    }
+    result.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  return { results: [...results.values()], invalid: false, fixed };
+}
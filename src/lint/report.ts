@@ -0,0 +1,40 @@
+import { ui } from '../ui/index.js';
+import { countBySeverity } from '../validation/diagnostics.js';
+import { formatDiagnostic, plural, printFileSummary } from '../validation/report.js';
+import type { LintResult } from './linter.js';
+
+/**
+ * Prints lint findings in the same layout as `agent check`, followed by a
+ * summary of what was found and fixed.
+ */
+export function printLintReport({ results, fixed }: LintResult): void {
+  /* eslint-disable no-console */
+  for (const result of results) {
+    const lines = result.text ? result.text.split(/\r?\n/) : [];
+    for (const d of result.diagnostics) {
+      console.log(formatDiagnostic(d, lines).join('\n'));
+      console.log('');
+    }
+  }
+  /* eslint-enable no-console */
+
+  if (results.length > 1 && results.some(r => r.diagnostics.length > 0)) {
+    printFileSummary(results);
+  }
+
+  if (fixed > 0) {
+    ui.success(`Fixed ${plural(fixed, 'problem')}`);
+  }
+
+  const problems = results.reduce((n, r) => n + r.diagnostics.length, 0);
+  const errors = countBySeverity(results, 'error');
+  const files = plural(results.length, 'file');
+
+  if (errors > 0) {
+    ui.error(`Found ${plural(problems, 'problem')} (${plural(errors, 'error')}) in ${files}`);
+  } else if (problems > 0) {
+    ui.warn(`Found ${plural(problems, 'problem')} in ${files}`);
+  } else {
+    ui.success(`Linted ${files}, no problems found`);
+  }
+}
@@ -0,0 +1,178 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import type { Module } from 'agentlang/out/runtime/module.js';
+import type { DiagnosticSeverity } from '../validation/diagnostics.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modRuntimeModule: typeof import('agentlang/out/runtime/module.js') = await import(
+  `${agPath}/out/runtime/module.js`
+);
+const { getEnumValues, Workflow } = modRuntimeModule;
+
+export interface LintFinding {
+  moduleName: string;
+  // Name of the offending entry, as declared in its module
+  entryName: string;
+  // Set when the finding is about one attribute of the entry
+  attribute?: string;
+  message: string;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  defaultSeverity: DiagnosticSeverity;
+  check(modules: Module[]): LintFinding[];
+}
+
+const pascalCase = /^[A-Z][A-Za-z0-9]*$/;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const entityId: LintRule = {
+  id: 'entity-id',
+  description: 'Entities must declare an @id attribute',
+  defaultSeverity: 'warning',
+  check: modules =>
+    modules.flatMap(module =>
+      module
+        .getEntityEntries()
+        .filter(entity => entity.getIdAttributeName() === undefined)
+        .map(entity => ({
+          moduleName: module.name,
+          entryName: entity.name,
+          message: `Entity ${entity.name} has no @id attribute`,
+        })),
+    ),
+};
+
+const unusedEvent: LintRule = {
+  id: 'unused-event',
+  description: 'Events should have a workflow or be raised from one',
+  defaultSeverity: 'warning',
+  check: modules => {
+    const workflows = modules.flatMap(module =>
+      module.entries
+        .filter(entry => entry instanceof Workflow)
+        .map(wf => ({ moduleName: module.name, source: wf.statementsToStrings().join('\n') })),
+    );
+
+    return modules.flatMap(module =>
+      module
+        .getEventEntries()
+        .filter(event => {
+          if (module.getWorkflowForEvent(event.name)) return false;
+          const fqName = new RegExp(`\\b${escapeRegExp(`${module.name}/${event.name}`)}\\b`);
+          const localName = new RegExp(`(^|[^\\w./])${escapeRegExp(event.name)}\\b`);
+          return !workflows.some(
+            wf => fqName.test(wf.source) || (wf.moduleName === module.name && localName.test(wf.source)),
+          );
+        })
+        .map(event => ({
+          moduleName: module.name,
+          entryName: event.name,
+          message: `Event ${event.name} has no workflow and is not raised by any workflow`,
+        })),
+    );
+  },
+};
+
+const containsCycle: LintRule = {
+  id: 'contains-cycle',
+  description: 'Contains relationships must form a tree',
+  defaultSeverity: 'error',
+  check: modules => {
+    const edges = new Map<string, { to: string; moduleName: string; relationship: string }[]>();
+    for (const module of modules) {
+      for (const rel of module.getContainsRelationshipEntries()) {
+        const from = rel.parentNode().path.asFqName();
+        const to = rel.childNode().path.asFqName();
+        edges.set(from, [...(edges.get(from) ?? []), { to, moduleName: module.name, relationship: rel.name }]);
+      }
+    }
+
+    const findings: LintFinding[] = [];
+    const reported = new Set<string>();
+    const done = new Set<string>();
+
+    // Depth-first search; an edge back into the current path closes a cycle
+    const visit = (node: string, trail: string[], rels: string[]): void => {
+      for (const edge of edges.get(node) ?? []) {
+        const start = trail.indexOf(edge.to);
+        if (start >= 0) {
+          const cycleRels = [...rels.slice(start), edge.relationship];
+          const key = [...cycleRels].sort().join(',');
+          if (!reported.has(key)) {
+            reported.add(key);
+            const cycle = [...trail.slice(start), edge.to].map(n => n.substring(n.lastIndexOf('/') + 1));
+            findings.push({
+              moduleName: edge.moduleName,
+              entryName: edge.relationship,
+              message: `Relationship ${edge.relationship} closes a contains cycle: ${cycle.join(' -> ')}`,
+            });
+          }
+        } else if (!done.has(edge.to)) {
+          visit(edge.to, [...trail, edge.to], [...rels, edge.relationship]);
+        }
+      }
+      done.add(node);
+    };
+    for (const node of [...edges.keys()].sort()) {
+      if (!done.has(node)) visit(node, [node], []);
+    }
+    return findings;
+  },
+};
+
+const pascalCaseNames: LintRule = {
+  id: 'pascal-case',
+  description: 'Entity, record, event and relationship names should be PascalCase',
+  defaultSeverity: 'warning',
+  check: modules =>
+    modules.flatMap(module =>
+      [
+        ...module.getEntityEntries().map(e => ({ kind: 'Entity', name: e.name })),
+        ...module.getRecordEntries().map(e => ({ kind: 'Record', name: e.name })),
+        ...module.getEventEntries().map(e => ({ kind: 'Event', name: e.name })),
+        ...module.getRelationshipEntries().map(e => ({ kind: 'Relationship', name: e.name })),
+      ]
+        .filter(entry => !pascalCase.test(entry.name))
+        .map(entry => ({
+          moduleName: module.name,
+          entryName: entry.name,
+          message: `${entry.kind} name ${entry.name} is not PascalCase`,
+        })),
+    ),
+};
+
+const singleValueEnum: LintRule = {
+  id: 'single-value-enum',
+  description: '@enum attributes should allow more than one value',
+  defaultSeverity: 'warning',
+  check: modules =>
+    modules.flatMap(module =>
+      [...module.getEntityEntries(), ...module.getRecordEntries(), ...module.getEventEntries()].flatMap(entry =>
+        [...entry.schema.entries()]
+          .filter(([, spec]) => {
+            const values = getEnumValues(spec);
+            return values !== undefined && values.size < 2;
+          })
+          .map(([name]) => ({
+            moduleName: module.name,
+            entryName: entry.name,
+            attribute: name,
+            message: `Attribute ${entry.name}.${name} is an @enum with a single value`,
+          })),
+      ),
+    ),
+};
+
+export const lintRules: LintRule[] = [entityId, unusedEvent, containsCycle, pascalCaseNames, singleValueEnum];
@@ -1,11 +1,11 @@
 import { Command } from 'commander';
-import { NodeFileSystem } from 'langium/node';
 import * as path from 'node:path';
 import { createInterface } from 'node:readline/promises';
 import os from 'node:os';
 import { simpleGit, type SimpleGit } from 'simple-git';
 import { initializeProject } from './utils/projectInitializer.js';
 import { existsSync, readFileSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
 import { renderToString } from 'ink';
@@ -47,17 +47,11 @@ const modAgentlangLanguageMetaData: typeof import('agentlang/out/language/genera
   `${agPath}/out/language/generated/module.js`
 );
 const { AgentlangLanguageMetaData } = modAgentlangLanguageMetaData;
-const modCreateAgentlangServices: typeof import('agentlang/out/language/agentlang-module.js') = await import(
-  `${agPath}/out/language/agentlang-module.js`
-);
-const { createAgentlangServices } = modCreateAgentlangServices;
 const modLoader: typeof import('agentlang/out/runtime/loader.js') = await import(`${agPath}/out/runtime/loader.js`);
-const { internModule, load, loadAppConfig, loadRawConfig, extractDocument } = modLoader;
+const { internModule, load } = modLoader;
 import type { ApplicationSpec } from 'agentlang/out/runtime/loader.js';
 const modLogger: typeof import('agentlang/out/runtime/logger.js') = await import(`${agPath}/out/runtime/logger.js`);
-const { logger, updateLoggerFromConfig } = modLogger;
-const modState: typeof import('agentlang/out/runtime/state.js') = await import(`${agPath}/out/runtime/state.js`);
-const { setAppConfig } = modState;
+const { updateLoggerFromConfig } = modLogger;
 import type { Config } from 'agentlang/out/runtime/state.js';
 const modIntegrations: typeof import('agentlang/out/runtime/integrations.js') = await import(
   `${agPath}/out/runtime/integrations.js`
@@ -74,18 +68,16 @@ const { resetDefaultDatabase } = modDatabase;
 const modDefs: typeof import('agentlang/out/runtime/defs.js') = await import(`${agPath}/out/runtime/defs.js`);
 const {
   isRuntimeMode_dev,
+  isRuntimeMode_prod,
   setRuntimeMode_prod,
   setRuntimeMode_test,
   setRuntimeMode_init_schema,
   setRuntimeMode_migration,
   setRuntimeMode_undo_migration,
   setRuntimeMode_generate_migration,
-  setRuntimeMode_apply_migration,
 } = modDefs;
 const modRuntime: typeof import('agentlang/out/utils/runtime.js') = await import(`${agPath}/out/utils/runtime.js`);
 const { isNodeEnv } = modRuntime;
-const modOpenApi: typeof import('agentlang/out/runtime/openapi.js') = await import(`${agPath}/out/runtime/openapi.js`);
-const { registerOpenApiModule } = modOpenApi;
 const modCli: typeof import('agentlang/out/cli/main.js') = await import(`${agPath}/out/cli/main.js`);
 const { runPreInitTasks, runPostInitTasks } = modCli;
 
@@ -94,17 +86,68 @@ import type { ModuleDefinition } from 'agentlang/out/language/generated/ast.js';
 
 import { generateSwaggerDoc } from './docs.js';
 import { startRepl } from './repl.js';
+import { defaultHistorySize } from './replHistory.js';
 import { generateUI } from './ui-generator/uiGenerator.js';
 import { loadUISpec } from './ui-generator/specLoader.js';
 import { findSpecFile } from './ui-generator/specFinder.js';
 import { startStudio } from './studio.js';
-import { OpenAPIClientAxios } from 'openapi-client-axios';
+import { captureHttpService, watchAndReload } from './hotReload.js';
+import { printRunSummary, summarizeApp } from './runSummary.js';
+import { loadOpenApiModules } from './openapiSpecs.js';
+import { migrationStatus, printMigrationStatus } from './migrations/status.js';
+import { applyMigrationFile, generateMigrationFiles } from './migrations/files.js';
+import { applyPendingMigration } from './migrations/apply.js';
+import { printRollbackPreview, rollbackMigrations } from './migrations/down.js';
+import {
+  defaultSnapshotsKept,
+  restoreSnapshot,
+  snapshotDatabase,
+  snapshotDir,
+  sqliteDatabaseFile,
+} from './migrations/snapshots.js';
+import { confirmDestructiveChanges, printRiskSummary, type SchemaChange } from './migrations/risk.js';
+import { resolveFixtureFiles, seedApp, seedDir, seedFixtures, type SeedResult } from './data/seed.js';
+import { loadRevisionModules } from './schema/revisions.js';
+import { diffSchemas } from './schema/diff.js';
+import { isSchemaDiffFormat, printSchemaDiff, schemaDiffFormats, schemaDiffMarkdown } from './schema/report.js';
+import {
+  dataCounts,
+  dataFormats,
+  exportData,
+  formatData,
+  importData,
+  inferDataFormat,
+  isDataFormat,
+  writeCsvData,
+} from './data/transfer.js';
 import { forkApp, type ForkOptions } from './utils/forkApp.js';
+import { createValidationServices, validateFiles, hasErrors } from './validation/diagnostics.js';
+import { emitModel } from './validation/model.js';
+import { plural, printTextReport } from './validation/report.js';
+import { resolveValidationTargets } from './validation/project.js';
+import { watchValidation } from './validation/watch.js';
+import { isReportFormat, reportFormats, toJsonReport, toSarifLog } from './validation/formats.js';
+import { lintConfigFileName, loadLintConfig } from './lint/config.js';
+import { lintProject } from './lint/linter.js';
+import { printLintReport } from './lint/report.js';
+import { lintRules } from './lint/rules.js';
+import { FormatError, formatSource } from './formatter/formatter.js';
+import { ConfigError, parseSetOverrides } from './config/overlays.js';
+import { locateConfigFiles, resolveAppConfig, type ConfigOptions } from './config/appConfig.js';
+import { explainConfig, getConfigValue, setConfigValue, validateConfig } from './config/inspect.js';
+import { plainSecretWarnings } from './config/secrets.js';
+import { appDirOf } from './config/envFiles.js';
 
 export interface GenerateOptions {
   destination?: string;
 }
 
+export interface ValidateOptions extends GenerateOptions {
+  format?: string;
+  watch?: boolean;
+  output?: string;
+}
+
 function getDefaultRepoUrl(appName: string): string {
   const username = os.userInfo().username || 'username';
   const repoName = appName.replace(/\s+/g, '');
@@ -278,10 +321,11 @@ ${ui.format.boldWhite('EXAMPLES')}
     )
     .action(initCommand);
 
-  program
-    .command('run')
-    .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
-    .option('-c, --config <config>', 'Path to configuration file')
+  withConfigOptions(program.command('run').argument('[file]', `Agentlang source file (${fileExtensions})`, '.'))
+    .option('-w, --watch', 'Reload changed modules without restarting the app')
+    .option('--offline', 'Use the cached specs of OpenAPI modules instead of fetching them')
+    .option('--dry-run', 'Load the app and print a summary without starting it')
+    .option('--json', 'Print the dry run summary as JSON')
     .description('Load and execute an Agentlang module')
     .addHelpText(
       'after',
@@ -302,6 +346,12 @@ ${ui.format.boldWhite('EXAMPLES')}
 
   ${ui.format.dim('Run module from specific directory')}
   ${ui.format.dim('$')} ${ui.format.cyan('agent run ~/projects/erp-system')}
+
+  ${ui.format.dim('Reload modules as they change during development')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent run --watch')}
+
+  ${ui.format.dim('Check what would be loaded, without binding ports or opening the database')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent run --dry-run --json')}
 `,
     )
     .action(runModule);
@@ -316,18 +366,49 @@ ${ui.format.boldWhite('EXAMPLES')}
   ${ui.format.dim('$')} ${ui.format.cyan(`agent ${cmd} . -c app.config.json`)}
 `;
 
-  program
-    .command('initSchema')
-    .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
-    .option('-c, --config <config>', 'Path to configuration file')
+  withConfigOptions(program.command('initSchema').argument('[file]', `Agentlang source file (${fileExtensions})`, '.'))
+    .option('--seed [fixtures...]', `Seed the database afterwards, from ${seedDir}/ when no fixtures are given`)
     .description('Initialize the database schema from your Agentlang module.')
-    .addHelpText('after', migrationHelp('initSchema', 'Initialize the database schema from your Agentlang module.'))
+    .addHelpText(
+      'after',
+      `${migrationHelp('initSchema', 'Initialize the database schema from your Agentlang module.')}  ${ui.format.dim('$')} ${ui.format.cyan('agent initSchema --seed')}
+`,
+    )
     .action(initSchemaCommand);
 
-  program
-    .command('runMigrations')
-    .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
-    .option('-c, --config <config>', 'Path to configuration file')
+  withConfigOptions(
+    program
+      .command('seed')
+      .argument('[fixtures...]', `JSON or YAML fixture files or directories (default: ${seedDir}/ of the app)`)
+      .option('--app <path>', 'Agentlang app directory or source file', '.'),
+  )
+    .description('Seed the database from fixtures keyed by Module/Entity')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Create the records of JSON or YAML fixtures, which map Module/Entity names
+  to records. A key of a record that names a relationship holds the contained
+  children, or the @id values of the instances to link for a between
+  relationship. Records are upserted by their @id, so seeding again updates
+  them in place. The database schema must be up to date.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('Seed from the seeds directory of the app')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent seed')}
+
+  ${ui.format.dim('Seed from given fixtures')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent seed seeds/users.yaml seeds/posts.json')}
+
+  ${ui.format.dim('Seed another app with a profile')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent seed --app ~/projects/blog --profile staging')}
+`,
+    )
+    .action(seedCommand);
+
+  withConfigOptions(
+    program.command('runMigrations').argument('[file]', `Agentlang source file (${fileExtensions})`, '.'),
+  )
     .description('Generate and run simulation of pending migrations to bring the database schema up to date.')
     .addHelpText(
       'after',
@@ -338,44 +419,234 @@ ${ui.format.boldWhite('EXAMPLES')}
     )
     .action(runMigrationsCommand);
 
-  program
-    .command('applyMigration')
-    .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
-    .option('-c, --config <config>', 'Path to configuration file')
+  withConfigOptions(
+    program.command('applyMigration').argument('[file]', `Agentlang source file (${fileExtensions})`, '.'),
+  )
+    .option('--apply-file <file>', 'Apply a reviewed SQL script, as written by generateMigration --out')
+    .option('--allow-destructive', 'Apply changes that may lose data, such as dropped columns, without asking')
+    .option(
+      '--keep-snapshots <n>',
+      'Number of SQLite snapshots to keep, 0 to skip the snapshot',
+      String(defaultSnapshotsKept),
+    )
     .description('Apply the migrations generated via runMigrations command to the database.')
     .addHelpText(
       'after',
-      migrationHelp('applyMigration', 'Apply the migrations generated via runMigrations command to the database.'),
+      `${migrationHelp('applyMigration', 'Apply the migrations generated via runMigrations command to the database.')}  ${ui.format.dim('$')} ${ui.format.cyan('agent applyMigration --apply-file migrations/0003_1.2.0.up.sql')}
+`,
     )
     .action(applyMigrationCommand);
 
-  program
-    .command('undoLastMigration')
-    .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
-    .option('-c, --config <config>', 'Path to configuration file')
+  withConfigOptions(
+    program.command('undoLastMigration').argument('[file]', `Agentlang source file (${fileExtensions})`, '.'),
+  )
+    .option(
+      '--keep-snapshots <n>',
+      'Number of SQLite snapshots to keep, 0 to skip the snapshot',
+      String(defaultSnapshotsKept),
+    )
     .description('Revert the most recently applied migration.')
     .addHelpText('after', migrationHelp('undoLastMigration', 'Revert the most recently applied migration.'))
     .action(undoLastMigrationCommand);
 
-  program
-    .command('generateMigration')
-    .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
-    .option('-c, --config <config>', 'Path to configuration file')
+  withConfigOptions(
+    program.command('generateMigration').argument('[file]', `Agentlang source file (${fileExtensions})`, '.'),
+  )
+    .option('--out <dir>', 'Also write the migration as numbered up and down .sql files to a directory')
     .description('Generate and store (in migration entity) the migration script for pending schema changes.')
     .addHelpText(
       'after',
-      migrationHelp(
+      `${migrationHelp(
         'generateMigration',
         'Generate and store (in migration entity) the migration script for pending schema changes.',
-      ),
+      )}  ${ui.format.dim('$')} ${ui.format.cyan('agent generateMigration --out migrations')}
+`,
     )
     .action(generateMigrationCommand);
 
+  const migrateCommand = program
+    .command('migrate')
+    .description('Inspect and manage database migrations')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('Check that the database matches the modules before a deploy')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent migrate status --profile prod')}
+`,
+    );
+
+  withConfigOptions(
+    migrateCommand.command('status').argument('[file]', `Agentlang source file (${fileExtensions})`, '.'),
+  )
+    .option('--json', 'Print the status as JSON')
+    .description('List recorded migrations and pending schema changes, failing when the schema is out of date')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Connects to the database of the app without changing it, lists the
+  migrations recorded in it and compares its tables with the modules. Exits
+  with status 1 when there are pending changes, so it can gate a deploy.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent migrate status')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent migrate status . --profile prod --json')}
+`,
+    )
+    .action(migrateStatusCommand);
+
+  withConfigOptions(
+    migrateCommand
+      .command('down')
+      .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
+      .requiredOption('--to <version|count>', 'Recorded version to go back to, or number of migrations to revert'),
+  )
+    .option('--allow-destructive', 'Revert changes that may lose data, such as dropped columns, without asking')
+    .option(
+      '--keep-snapshots <n>',
+      'Number of SQLite snapshots to keep, 0 to skip the snapshot',
+      String(defaultSnapshotsKept),
+    )
+    .option('--dry-run', 'Preview the down scripts without running them')
+    .description('Revert recorded migrations, newest first, back to a version or by a number of migrations')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Prints the down statements of every migration to revert before anything
+  runs, then runs them newest first in a single transaction, so that a
+  failure leaves the database unchanged on stores with transactional DDL.
+  Reverted migrations are removed from the database. A recorded version
+  given to --to is kept; a number reverts that many migrations.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent migrate down --to 1.2.0')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent migrate down --to 2 --dry-run')}
+`,
+    )
+    .action(migrateDownCommand);
+
+  const dbCommand = program.command('db').description('Manage the database of an app');
+
+  withConfigOptions(
+    dbCommand
+      .command('restore')
+      .argument('<snapshot>', `Snapshot file, or its name under ${snapshotDir}`)
+      .argument('[file]', `Agentlang source file (${fileExtensions})`, '.'),
+  )
+    .description('Replace the SQLite database of the app with a snapshot')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  applyMigration, undoLastMigration and migrate down save a snapshot of a
+  SQLite database under ${snapshotDir} before changing it. The database is
+  snapshotted again before it is replaced, so a restore can be undone too.
+  Stop the app first: nothing else may have the database open.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent db restore myapp-20250114-093012345.db')}
+  ${ui.format.dim('$')} ${ui.format.cyan(`agent db restore ${snapshotDir}/myapp-20250114-093012345.db --profile staging`)}
+`,
+    )
+    .action(dbRestoreCommand);
+
+  const schemaCommand = program.command('schema').description('Inspect the data model of an app');
+
+  schemaCommand
+    .command('diff')
+    .argument('<ref-a>', 'Git revision to compare from')
+    .argument('[ref-b]', 'Git revision to compare to (default: the working tree)')
+    .option('--app <path>', 'Agentlang app directory', '.')
+    .option('-f, --format <format>', `Report format: ${schemaDiffFormats.join(', ')}`, 'text')
+    .option('-o, --output <file>', 'Write the markdown or json report to a file instead of stdout')
+    .description('Report how the data model changed between two git revisions')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Reads the modules of the app at both revisions and reports the entities,
+  records, events, relationships and workflows that were added, removed or
+  changed, down to attributes, types, defaults and other properties.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('Changes since main, including uncommitted ones')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent schema diff main')}
+
+  ${ui.format.dim('Markdown for a pull request comment')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent schema diff origin/main HEAD --format markdown -o schema.md')}
+`,
+    )
+    .action(schemaDiffCommand);
+
+  const dataCommand = program.command('data').description('Export and import the records of an app');
+
+  withConfigOptions(
+    dataCommand
+      .command('export')
+      .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
+      .option(
+        '--entity <name>',
+        'Export a Module/Entity and the entities that contain it (repeatable, default: all)',
+        (value: string, previous: string[]) => [...previous, value],
+        [],
+      )
+      .option('--format <format>', `Output format: ${dataFormats.join(', ')}`, 'json')
+      .option('--out <path>', 'File to write, or directory for csv (default: stdout)'),
+  )
+    .description('Export the records of the entities of the app, with their relationships')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Records keep the paths that place contained records under their parents,
+  and the links of between relationships are exported when both of their
+  entities are. csv writes a <Module>.<Entity>.csv file per entity to the
+  --out directory.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent data export --out data.json')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent data export --entity Blog.core/Post --format ndjson > posts.ndjson')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent data export --format csv --out data --profile staging')}
+`,
+    )
+    .action(dataExportCommand);
+
+  withConfigOptions(
+    dataCommand
+      .command('import')
+      .argument('<input>', 'File written by data export, or directory of csv files')
+      .argument('[file]', `Agentlang source file (${fileExtensions})`, '.')
+      .option('--format <format>', `Input format: ${dataFormats.join(', ')} (default: from the input)`),
+  )
+    .description('Import records written by data export')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Records are upserted by their @id, parents before the records they
+  contain, then the links of between relationships are made. Records that
+  fail are listed and the others are still imported.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent data import data.json')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent data import data --format csv --profile test')}
+`,
+    )
+    .action(dataImportCommand);
+
   program
     .command('repl')
     .argument('[directory]', 'Application directory (defaults to current)', '.')
     .option('-w, --watch', 'Watch for file changes and reload automatically')
     .option('-q, --quiet', 'Suppress startup messages')
+    .option('--profile <name>', 'Layer app.config.<name>.json over the base configuration')
+    .option(
+      '--history-size <n>',
+      'Number of entries kept in .agentlang/repl_history, 0 to keep none',
+      String(defaultHistorySize),
+    )
     .description('Start interactive REPL environment')
     .addHelpText(
       'after',
@@ -385,6 +656,14 @@ ${ui.format.boldWhite('DESCRIPTION')}
   Agentlang, allowing you to execute code interactively, test functions,
   and explore your application in real-time.
 
+  Input with an open bracket or template literal continues on the next
+  line at a ...> prompt, so multi-line entity or workflow definitions can
+  be pasted as they are; .break or Ctrl+C cancels the block.
+
+  Entries are saved to .agentlang/repl_history in the app directory and
+  loaded again by the next session. Ctrl+R searches them, history lists
+  them, and !<n> runs entry n again.
+
 ${ui.format.boldWhite('EXAMPLES')}
   ${ui.format.dim('Start REPL in current directory')}
   ${ui.format.dim('$')} ${ui.format.cyan('agent repl')}
@@ -400,6 +679,9 @@ ${ui.format.boldWhite('EXAMPLES')}
 
   ${ui.format.dim('Combine options for development workflow')}
   ${ui.format.dim('$')} ${ui.format.cyan('agent repl . --watch')}
+
+  ${ui.format.dim('Keep a longer history')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent repl --history-size 5000')}
 `,
     )
     .action(replCommand);
@@ -439,8 +721,10 @@ ${ui.format.boldWhite('EXAMPLES')}
 
   program
     .command('parseAndValidate')
-    .argument('<file>', `Agentlang source file (${fileExtensions})`)
-    .option('-d, --destination <dir>', 'Output directory for generated files')
+    .argument('<path>', `Agentlang source file (${fileExtensions}) or app directory`)
+    .option('-d, --destination <dir>', 'Write the parsed AST and resolved module model as JSON to this directory')
+    .option('-f, --format <format>', 'Report format: text, json or sarif', 'text')
+    .option('-o, --output <file>', 'Write the json or sarif report to a file instead of stdout')
     .description('Parse and validate Agentlang source code')
     .addHelpText(
       'after',
@@ -450,19 +734,155 @@ ${ui.format.boldWhite('DESCRIPTION')}
   errors, lexer issues, and semantic validation problems. Useful for
   CI/CD pipelines and pre-deployment validation.
 
+  When given a directory, every module of the app (top-level .al files and
+  src/**/*.al, excluding config.al) is validated together, including
+  references between modules.
+
 ${ui.format.boldWhite('EXAMPLES')}
   ${ui.format.dim('Validate a source file')}
   ${ui.format.dim('$')} ${ui.format.cyan('agent parseAndValidate ./src/main.al')}
 
-  ${ui.format.dim('Parse and validate with output directory')}
-  ${ui.format.dim('$')} ${ui.format.cyan('agent parseAndValidate main.al -d ./out')}
+  ${ui.format.dim('Validate every module of the app in the current directory')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent parseAndValidate .')}
+
+  ${ui.format.dim('Write the module model (model.json) and ASTs (ast/*.json) to ./out')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent parseAndValidate . -d ./out')}
 
   ${ui.format.dim('Validate in CI/CD pipeline')}
   ${ui.format.dim('$')} ${ui.format.cyan('agent parseAndValidate app.al && npm run deploy')}
+
+  ${ui.format.dim('Emit a SARIF log for code-scanning upload')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent parseAndValidate . --format sarif -o agentlang.sarif')}
 `,
     )
     .action(parseAndValidate);
 
+  program
+    .command('check')
+    .argument('[path]', 'Application directory or source file (defaults to current)', '.')
+    .option('-f, --format <format>', 'Report format: text, json or sarif', 'text')
+    .option('-o, --output <file>', 'Write the json or sarif report to a file instead of stdout')
+    .option('-w, --watch', 'Re-validate changed files on save and keep the report on screen')
+    .description('Validate every module of an Agentlang application')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Validates all modules of an Agentlang application the same way they are
+  loaded by 'agent run': top-level .al files and everything under src/,
+  excluding config.al. Reports every diagnostic along with a summary count
+  per file, and exits with a non-zero status when any error is found.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('Check the app in the current directory')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent check')}
+
+  ${ui.format.dim('Check a specific app')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent check ./my-app')}
+
+  ${ui.format.dim('Machine-readable output for editors and scripts')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent check --format json')}
+
+  ${ui.format.dim('Keep validating while you edit')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent check --watch')}
+`,
+    )
+    .action(checkCommand);
+
+  program
+    .command('lint')
+    .argument('[path]', 'Application directory (defaults to current)', '.')
+    .option('--fix', 'Rewrite sources to fix problems that have a mechanical fix')
+    .option('-c, --config <file>', `Lint configuration file (default: <path>/${lintConfigFileName})`)
+    .option(
+      '-r, --rule <rule=severity>',
+      'Override the severity of a rule: off, hint, info, warning or error (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
+    .description('Check Agentlang modules for common design mistakes')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Loads the app and checks its modules against a set of lint rules. The app
+  must pass 'agent check' first. Exits with a non-zero status when a finding
+  has error severity.
+
+${ui.format.boldWhite('RULES')}
+${lintRules.map(r => `  ${ui.format.cyan(r.id.padEnd(18))} ${r.description} (${r.defaultSeverity})`).join('\n')}
+
+  Rule severities can be set in ${lintConfigFileName}: { "rules": { "pascal-case": "off" } }
+  Findings can be suppressed with a comment on the line above the definition,
+  // agent-lint-disable-next-line <rule>, or for the whole file with
+  // agent-lint-disable <rule>.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('Lint the app in the current directory')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent lint')}
+
+  ${ui.format.dim('Add missing @id attributes')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent lint ./my-app --fix')}
+
+  ${ui.format.dim('Treat unused events as errors')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent lint --rule unused-event=error')}
+`,
+    )
+    .action(lintCommand);
+
+  program
+    .command('fmt')
+    .argument('[paths...]', 'Source files or app directories to format (defaults to current)')
+    .option('--check', 'Report files that are not formatted instead of rewriting them')
+    .description('Format Agentlang source files')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Reprints modules with a canonical layout: two-space indentation, one
+  attribute per line with aligned types, a single blank line between
+  definitions and comments kept in place. Directories are expanded to the
+  modules of the app, the same files 'agent check' validates.
+
+  With --check no file is written and the command exits with a non-zero
+  status when any file is not formatted, which makes it suitable for CI.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('Format every module of the app in the current directory')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent fmt')}
+
+  ${ui.format.dim('Format specific files')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent fmt src/core.al src/orders.al')}
+
+  ${ui.format.dim('Verify formatting in CI')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent fmt --check')}
+`,
+    )
+    .action(fmtCommand);
+
+  program
+    .command('lsp')
+    .option('--stdio', 'Communicate with the editor over stdin/stdout')
+    .description('Start the Agentlang language server')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Starts the Agentlang language server for editors that speak the Language
+  Server Protocol. It provides diagnostics, hover, go-to-definition,
+  references, document symbols and completion, using the agentlang version
+  installed in the project when there is one.
+
+  Nothing but protocol messages is written to stdout; configure your editor
+  to launch 'agent lsp --stdio' for .al files.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('Command to configure in the editor')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent lsp --stdio')}
+`,
+    )
+    .action(lspCommand);
+
   program
     .command('ui-gen')
     .argument('[spec-file]', 'Path to ui-spec.json (auto-detects if omitted)')
@@ -568,11 +988,74 @@ ${ui.format.boldWhite('EXAMPLES')}
     )
     .action(forkCommand);
 
+  const configCommand = program
+    .command('config')
+    .description('Inspect, validate and edit the configuration of an app')
+    .addHelpText(
+      'after',
+      `
+${ui.format.boldWhite('DESCRIPTION')}
+  Works on the configuration the runtime would use: config.al or
+  app.config.json, or the file given with --config, merged with the profile
+  selected with --profile, AGENTLANG__* environment variables and --set flags.
+
+${ui.format.boldWhite('EXAMPLES')}
+  ${ui.format.dim('Show every value and where it comes from')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent config show --profile prod')}
+
+  ${ui.format.dim('Check the configuration in CI')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent config validate')}
+
+  ${ui.format.dim('Read and change a value from a script')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent config get service.port')}
+  ${ui.format.dim('$')} ${ui.format.cyan('agent config set service.port 8090')}
+`,
+    );
+
+  withConfigOptions(
+    configCommand.command('show').argument('[path]', 'Application directory (defaults to current)', '.'),
+  )
+    .option('--json', 'Print the values and their origins as JSON')
+    .description('Print the effective configuration and where each value comes from, with secrets masked')
+    .action(configShowCommand);
+
+  withConfigOptions(
+    configCommand.command('validate').argument('[path]', 'Application directory (defaults to current)', '.'),
+  )
+    .description('Check the configuration against the schema, reporting the path of each problem')
+    .action(configValidateCommand);
+
+  withConfigOptions(
+    configCommand
+      .command('get')
+      .argument('<key>', 'Configuration key, as in service.port')
+      .argument('[path]', 'Application directory (defaults to current)', '.'),
+  )
+    .description('Print a value of the effective configuration')
+    .action(configGetCommand);
+
+  configCommand
+    .command('set')
+    .argument('<key>', 'Configuration key, as in service.port')
+    .argument('<value>', 'New value, read as JSON when possible')
+    .argument('[path]', 'Application directory (defaults to current)', '.')
+    .option('-c, --config <config>', 'Path to configuration file')
+    .option('--profile <name>', 'Write to the file of this profile instead of the base configuration')
+    .description('Change a value in the configuration file, keeping it unchanged if the result is invalid')
+    .action(configSetCommand);
+
   program
     .command('studio')
     .argument('[path]', 'Path to Agentlang project directory (default: current directory)', '.')
     .option('-p, --port <port>', 'Port to run Studio server on', '4000')
     .option('--server-only', 'Start only the backend server without opening the UI')
+    .option(
+      '-s, --set <key=value>',
+      'Override a configuration value of the app, as in service.port=8090 (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      [],
+    )
+    .option('--profile <name>', 'Configuration profile of the app, as with agent run --profile')
     .description('Start Agentlang Studio with local server')
     .addHelpText(
       'after',
@@ -610,40 +1093,336 @@ ${ui.format.boldWhite('EXAMPLES')}
 
 /**
  * Parse and validate a program written in our language.
- * Verifies that no lexer or parser errors occur.
- * Implicitly also checks for validation errors while extracting the document
+ * Accepts a single source file or an app directory, in which case every module
+ * is validated together so references between modules can be checked.
+ * Reports every lexer, parser and validation diagnostic with its location and
+ * a code excerpt, and exits with a non-zero status if any of them is an error.
  *
- * @param fileName Program to validate
+ * @param target Program file or app directory to validate
  */
-export const parseAndValidate = async (fileName: string): Promise<void> => {
-  // retrieve the services for our language
-  const services = createAgentlangServices(NodeFileSystem).Agentlang;
-  // extract a document for our program
-  const document = await extractDocument(fileName, services);
-  // extract the parse result details
-  const parseResult = document.parseResult;
-  // verify no lexer, parser, or general diagnostic errors show up
-  if (parseResult.lexerErrors.length === 0 && parseResult.parserErrors.length === 0) {
-    ui.success(`Parsed and validated ${fileName} successfully!`);
+export const parseAndValidate = async (target: string, options?: ValidateOptions): Promise<void> => {
+  const format = options?.format ?? 'text';
+  if (!isReportFormat(format)) {
+    ui.error(`Invalid format "${format}". Expected one of: ${reportFormats.join(', ')}`);
+    process.exit(1);
+  }
+  const files = resolveValidationTargets(target);
+  if (files.length === 0) {
+    ui.error(`No Agentlang source files found in ${target}`);
+    process.exit(1);
+  }
+  const services = createValidationServices();
+  const results = await validateFiles(files, services);
+
+  if (format === 'text') {
+    printTextReport(results);
   } else {
-    ui.error(`Failed to parse and validate ${fileName}!`);
+    const report = format === 'json' ? toJsonReport(results) : toSarifLog(results, packageVersion);
+    const content = `${JSON.stringify(report, null, 2)}\n`;
+    if (options?.output) {
+      await writeFile(path.resolve(process.cwd(), options.output), content, 'utf-8');
+    } else {
+      process.stdout.write(content);
+    }
+  }
+
+  if (options?.destination) {
+    if (hasErrors(results)) {
+      if (format === 'text') ui.warn('Skipped writing the module model because of validation errors');
+    } else {
+      const written = await emitModel(results, services, options.destination);
+      if (format === 'text') {
+        written.forEach(file => ui.step('✓', ' Wrote ', path.relative(process.cwd(), file)));
+      }
+    }
+  }
+
+  if (hasErrors(results)) {
+    process.exit(1);
+  }
+};
+
+export const checkCommand = async (target?: string, options?: ValidateOptions): Promise<void> => {
+  if (options?.watch) {
+    await watchCheck(target || '.', options);
+    return;
+  }
+  await parseAndValidate(target || '.', options);
+};
+
+// Keeps validating on every save, redrawing the report in place like a status panel
+const watchCheck = async (target: string, options: ValidateOptions): Promise<void> => {
+  if (options.format && options.format !== 'text') {
+    ui.error('--watch only supports the text format');
+    process.exit(1);
+  }
+  if (resolveValidationTargets(target).length === 0) {
+    ui.error(`No Agentlang source files found in ${target}`);
+    process.exit(1);
+  }
+  await watchValidation(target, createValidationServices(), (results, changed) => {
+    // eslint-disable-next-line no-console
+    console.log('\x1b[2J\x1b[0f');
+    printTextReport(results);
+    const time = new Date().toLocaleTimeString();
+    const trigger = changed.length > 0 ? ` after changes to ${changed.join(', ')}` : '';
+    ui.dim(`[${time}] Checked${trigger}. Watching ${target} for changes, press Ctrl+C to exit`);
+  });
+};
+
+/**
+ * Run the lint rules over every module of an app and report the findings.
+ * Exits with a non-zero status when the app does not validate or when any
+ * finding has error severity.
+ */
+export const lintCommand = async (
+  target?: string,
+  options?: { fix?: boolean; config?: string; rule?: string[] },
+): Promise<void> => {
+  const appDir = target || '.';
+  try {
+    const config = loadLintConfig(appDir, options?.config, options?.rule);
+    const result = await lintProject(appDir, config, { fix: options?.fix });
+    if (result.invalid) {
+      printTextReport(result.results);
+      ui.error('Fix the errors above before linting');
+      process.exit(1);
+    }
+    printLintReport(result);
+    if (hasErrors(result.results)) {
+      process.exit(1);
+    }
+  } catch (error) {
+    ui.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
   }
 };
 
-async function resolveAppConfig(fileName: string, configPath?: string): Promise<Config> {
-  if (configPath) {
-    const abs = path.resolve(process.cwd(), configPath);
-    const raw = await loadRawConfig(abs);
-    return setAppConfig(raw as Config);
+/**
+ * Format Agentlang source files in place, or with `check` only report the
+ * files whose layout differs from the canonical one.
+ */
+export const fmtCommand = async (paths: string[], options?: { check?: boolean }): Promise<void> => {
+  const files = (paths.length > 0 ? paths : ['.']).flatMap(resolveValidationTargets);
+  if (files.length === 0) {
+    ui.error('No Agentlang source files found');
+    process.exit(1);
+  }
+  const services = createValidationServices();
+  const unformatted: string[] = [];
+  let failed = 0;
+
+  for (const file of files) {
+    let text: string;
+    try {
+      text = await readFile(path.resolve(process.cwd(), file), 'utf-8');
+    } catch {
+      ui.error(`Cannot read ${file}`);
+      failed++;
+      continue;
+    }
+    let formatted: string;
+    try {
+      formatted = formatSource(text, services, file);
+    } catch (error) {
+      if (!(error instanceof FormatError)) throw error;
+      ui.error(error.message);
+      error.details.forEach(detail => ui.dim(`  ${detail}`));
+      failed++;
+      continue;
+    }
+    if (formatted === text) continue;
+
+    unformatted.push(file);
+    if (options?.check) {
+      ui.step('✗', ' Not formatted ', file);
+    } else {
+      await writeFile(path.resolve(process.cwd(), file), formatted, 'utf-8');
+      ui.step('✓', ' Formatted ', file);
+    }
+  }
+
+  if (options?.check && unformatted.length > 0) {
+    ui.warn(`${unformatted.length} of ${files.length} files need formatting, run 'agent fmt' to fix`);
+  } else if (!options?.check && unformatted.length > 0) {
+    ui.success(`Formatted ${unformatted.length} of ${files.length} files`);
+  } else if (failed === 0) {
+    ui.success(`All ${files.length} files are formatted`);
+  }
+
+  if (failed > 0 || (options?.check && unformatted.length > 0)) {
+    process.exit(1);
+  }
+};
+
+/**
+ * Start the Langium language server of the resolved agentlang package. The
+ * server reads its transport from the command line, so only --stdio, which is
+ * what editors expect from a CLI, is accepted here.
+ */
+export const lspCommand = async (options?: { stdio?: boolean }): Promise<void> => {
+  if (!options?.stdio) {
+    ui.error('Only the stdio transport is supported, run: agent lsp --stdio');
+    process.exit(1);
   }
-  const configDir = path.dirname(fileName) === '.' ? process.cwd() : path.resolve(process.cwd(), fileName);
-  return loadAppConfig(configDir);
+  await import(`${agPath}/out/language/main.js`);
+};
+
+function reportConfigError(error: ConfigError): never {
+  ui.error(error.message);
+  error.details.forEach(detail => ui.dim(`  ${detail}`));
+  process.exit(1);
 }
 
+// Resolves the app configuration, reporting configuration errors and ending the process on them
+async function resolveAppConfigOrExit(fileName: string, options?: ConfigOptions & { json?: boolean }): Promise<Config> {
+  try {
+    const config = await resolveAppConfig(fileName, options);
+    // Keep stdout to the JSON document when one is printed
+    const warn = options?.json ? (message: string) => process.stderr.write(`${message}\n`) : ui.warn;
+    (await plainSecretWarnings(fileName, options)).forEach(warning => warn(warning));
+    return config;
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    reportConfigError(error);
+  }
+}
+
+// Options to resolve the configuration of the app, as agent run takes them
+function withConfigOptions(command: Command): Command {
+  return command
+    .option('-c, --config <config>', 'Path to configuration file')
+    .option(
+      '-s, --set <key=value>',
+      'Override a configuration value, as in service.port=8090 (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      [],
+    )
+    .option('--profile <name>', 'Layer app.config.<name>.json over the base configuration');
+}
+
+// Runs a config subcommand once the core modules, whose entities config sections may name, are loaded
+async function withConfig(action: () => Promise<void>): Promise<void> {
+  try {
+    const r: boolean = await runPreInitTasks();
+    if (!r) {
+      throw new Error('Failed to initialize runtime');
+    }
+    await action();
+  } catch (error) {
+    if (error instanceof ConfigError) reportConfigError(error);
+    ui.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+function formatConfigValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Print every value of the effective configuration with the file, environment
+ * variable or flag it comes from. Secrets are masked.
+ */
+export const configShowCommand = async (target: string, options?: ConfigOptions & { json?: boolean }) =>
+  withConfig(async () => {
+    const entries = await explainConfig(target, options);
+    if (options?.json) {
+      process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+      return;
+    }
+    const { baseFile, profileFile } = locateConfigFiles(target, options);
+    const files = [baseFile, profileFile].filter((f): f is string => f !== undefined && existsSync(f));
+    ui.header('Configuration');
+    ui.label('Files', files.length > 0 ? files.map(f => path.relative(process.cwd(), f)).join(', ') : 'none');
+    ui.blank();
+    const width = Math.max(0, ...entries.map(e => e.key.length));
+    for (const entry of entries) {
+      ui.row([
+        { text: `  ${entry.key.padEnd(width)}  `, color: 'cyan' },
+        { text: formatConfigValue(entry.value) },
+        { text: `  ${entry.origin}`, dimColor: true },
+      ]);
+    }
+  });
+
+/**
+ * Check the configuration of an app and report each problem with its path.
+ * Exits with a non-zero status when there is any.
+ */
+export const configValidateCommand = async (target: string, options?: ConfigOptions) =>
+  withConfig(async () => {
+    const issues = await validateConfig(target, options);
+    (await plainSecretWarnings(target, options)).forEach(warning => ui.warn(warning));
+    if (issues.length === 0) {
+      ui.success('Configuration is valid');
+      return;
+    }
+    issues.forEach(issue => ui.step('✗', ` ${issue.path} `, issue.message));
+    ui.error(`Found ${issues.length} configuration ${issues.length === 1 ? 'problem' : 'problems'}`);
+    process.exit(1);
+  });
+
+/**
+ * Print a configuration value for scripts: strings as they are, anything else
+ * as JSON. Exits with a non-zero status when the key is not set.
+ */
+export const configGetCommand = async (key: string, target: string, options?: ConfigOptions) =>
+  withConfig(async () => {
+    const value = await getConfigValue(target, key, options);
+    if (value === undefined) {
+      ui.error(`${key} is not set`);
+      process.exit(1);
+    }
+    process.stdout.write(`${formatConfigValue(value)}\n`);
+  });
+
+export const configSetCommand = async (key: string, value: string, target: string, options?: ConfigOptions) =>
+  withConfig(async () => {
+    const file = await setConfigValue(target, key, value, options);
+    ui.success(`Set ${key} in ${path.relative(process.cwd(), file)}`);
+  });
+
+/**
+ * Load the app with its resolved configuration and print what the runtime
+ * would run, then exit without binding ports or opening the database.
+ */
+const dryRunModule = async (fileName: string, options?: ConfigOptions & { json?: boolean }): Promise<void> => {
+  try {
+    const r: boolean = await runPreInitTasks();
+    if (!r) {
+      throw new Error('Failed to initialize runtime');
+    }
+    const config: Config = await resolveAppConfigOrExit(fileName, options);
+    const summary = await summarizeApp(fileName, config, { quiet: options?.json });
+    if (options?.json) {
+      process.stdout.write(`${JSON.stringify(summary, null, 2)}\n`);
+    } else {
+      printRunSummary(summary);
+    }
+  } catch (err: unknown) {
+    ui.error(`Dry run failed: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+};
+
 export const runModule = async (
   fileName: string,
-  options?: { config?: string; releaseDb?: boolean },
+  options?: ConfigOptions & {
+    releaseDb?: boolean;
+    watch?: boolean;
+    dryRun?: boolean;
+    json?: boolean;
+    offline?: boolean;
+    // Runs once the configuration is resolved, before the app is loaded
+    beforeLoad?: (config: Config) => Promise<void>;
+    // Runs once the app is loaded and its database initialized
+    afterLoad?: (config: Config) => Promise<void>;
+  },
 ): Promise<void> => {
+  if (options?.dryRun) {
+    return dryRunModule(fileName, options);
+  }
   if (isRuntimeMode_dev()) {
     if (process.env.NODE_ENV === 'production') {
       setRuntimeMode_prod();
@@ -655,7 +1434,7 @@ export const runModule = async (
   if (!r) {
     throw new Error('Failed to initialize runtime');
   }
-  const config: Config = await resolveAppConfig(fileName, options?.config);
+  const config: Config = await resolveAppConfigOrExit(fileName, options);
   updateLoggerFromConfig();
   if (config.integrations) {
     await prepareIntegrations(
@@ -667,11 +1446,20 @@ export const runModule = async (
     configureIntegrationClient(config.integrations.host);
   }
   if (config.openapi) {
-    await loadOpenApiSpec(config.openapi);
+    await loadOpenApiModules(config.openapi, { appDir: appDirOf(fileName), offline: options?.offline });
   }
   try {
+    await options?.beforeLoad?.(config);
     await load(fileName, undefined, async (appSpec?: ApplicationSpec) => {
+      // In watch mode the server of the HTTP service is kept, to be restarted when routes change
+      if (options?.watch && appSpec && (isRuntimeMode_dev() || isRuntimeMode_prod())) {
+        captureHttpService(config);
+      }
       await runPostInitTasks(appSpec, config);
+      await options?.afterLoad?.(config);
+      if (options?.watch) {
+        await watchAndReload(fileName, { appSpec, config });
+      }
     });
   } catch (err: unknown) {
     if (isNodeEnv) {
@@ -687,31 +1475,365 @@ export const runModule = async (
   }
 };
 
-export const initSchemaCommand = async (fileName: string, options?: { config?: string }): Promise<void> => {
+/**
+ * Initialize the database schema, then seed it with --seed from the given
+ * fixture files, or from the seeds directory of the app.
+ */
+export const initSchemaCommand = async (
+  fileName: string,
+  options?: ConfigOptions & { seed?: boolean | string[] },
+): Promise<void> => {
+  const seed = options?.seed;
+  let fixtures: string[] | undefined;
+  if (seed) {
+    // Resolved first, so that a missing fixture fails before the schema is touched
+    try {
+      fixtures = await resolveFixtureFiles(appDirOf(fileName), seed === true ? [] : seed);
+    } catch (err: unknown) {
+      ui.error(`Seed failed: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  }
   setRuntimeMode_init_schema();
-  await runModule(fileName, { ...options, releaseDb: true });
+  await runModule(fileName, {
+    ...options,
+    releaseDb: true,
+    afterLoad: fixtures ? async () => printSeedResult(await seedFixtures(fixtures)) : undefined,
+  });
 };
 
-export const runMigrationsCommand = async (fileName: string, options?: { config?: string }): Promise<void> => {
+function printSeedResult(result: SeedResult): void {
+  if (result.files.length === 0) {
+    ui.info('No fixtures to seed');
+    return;
+  }
+  ui.success(
+    `Seeded ${plural(result.records, 'record')} and ${plural(result.links, 'link')} from ${plural(result.files.length, 'fixture file')}`,
+  );
+  result.files.forEach(file => ui.dim(`  ${path.relative(process.cwd(), file)}`));
+}
+
+/**
+ * Seed the database of an app from fixture files, or from its seeds
+ * directory. Records are upserted by their @id, so seeding is repeatable.
+ */
+export const seedCommand = async (files: string[], options?: ConfigOptions & { app?: string }): Promise<void> => {
+  const fileName = options?.app ?? '.';
+  await runMigrationTask(fileName, options, 'Seed', async config => {
+    printSeedResult(await seedApp(fileName, config, files));
+  });
+};
+
+export const runMigrationsCommand = async (fileName: string, options?: ConfigOptions): Promise<void> => {
   setRuntimeMode_migration();
   await runModule(fileName, { ...options, releaseDb: true });
 };
 
-export const applyMigrationCommand = async (fileName: string, options?: { config?: string }): Promise<void> => {
-  setRuntimeMode_apply_migration();
-  await runModule(fileName, { ...options, releaseDb: true });
+/**
+ * Apply the pending schema changes, or a reviewed SQL script with
+ * --apply-file. The changes are classified and summarized first, and the
+ * ones that may lose data need --allow-destructive or a confirmation.
+ */
+export const applyMigrationCommand = async (
+  fileName: string,
+  options?: ConfigOptions & { applyFile?: string; allowDestructive?: boolean; keepSnapshots?: string },
+): Promise<void> => {
+  await runMigrationTask(fileName, options, 'Apply migration', async config => {
+    const confirm = async (changes: SchemaChange[]) => {
+      printRiskSummary(changes);
+      if (!(await confirmDestructiveChanges(changes, { allowDestructive: options?.allowDestructive }))) return false;
+      await snapshotBeforeMigration(fileName, config, options?.keepSnapshots);
+      return true;
+    };
+    if (!options?.applyFile) {
+      const applied = await applyPendingMigration(fileName, config, confirm);
+      if (!applied) {
+        ui.info('Migration cancelled, the database was not changed');
+      } else if (applied.statements === 0) {
+        ui.info('No pending migration changes to apply');
+      } else {
+        ui.success(
+          `Applied ${plural(applied.statements, 'statement')} as the migration of version ${applied.appVersion}`,
+        );
+      }
+      return;
+    }
+    const applied = await applyMigrationFile(fileName, config, path.resolve(process.cwd(), options.applyFile), confirm);
+    if (!applied) {
+      ui.info('Migration cancelled, the database was not changed');
+      return;
+    }
+    ui.success(
+      `Applied ${plural(applied.statements, 'statement')} of ${options.applyFile} as the migration of version ${applied.appVersion}`,
+    );
+    if (applied.downFile) {
+      ui.dim(`  ${path.relative(process.cwd(), applied.downFile)} is recorded as the way back`);
+    } else {
+      ui.warn('No .down.sql script was found next to the script, the migration is recorded without a way back');
+    }
+    if (applied.remaining.length > 0) {
+      ui.warn(
+        `The database still differs from the modules by ${plural(applied.remaining.length, 'statement')}, see agent migrate status`,
+      );
+    }
+  });
 };
 
-export const undoLastMigrationCommand = async (fileName: string, options?: { config?: string }): Promise<void> => {
+export const undoLastMigrationCommand = async (
+  fileName: string,
+  options?: ConfigOptions & { keepSnapshots?: string },
+): Promise<void> => {
   setRuntimeMode_undo_migration();
-  await runModule(fileName, { ...options, releaseDb: true });
+  await runModule(fileName, {
+    ...options,
+    releaseDb: true,
+    beforeLoad: config => snapshotBeforeMigration(fileName, config, options?.keepSnapshots),
+  });
 };
 
-export const generateMigrationCommand = async (fileName: string, options?: { config?: string }): Promise<void> => {
+export const generateMigrationCommand = async (
+  fileName: string,
+  options?: ConfigOptions & { out?: string },
+): Promise<void> => {
+  if (options?.out) {
+    const outDir = path.resolve(process.cwd(), options.out);
+    await runMigrationTask(fileName, options, 'Generate migration', async config => {
+      const files = await generateMigrationFiles(fileName, config, outDir);
+      if (!files) {
+        ui.info('No pending schema changes, no migration was generated');
+        return;
+      }
+      ui.success(`Generated migration ${files.number} with ${plural(files.statements, 'statement')}`);
+      ui.dim(`  ${path.relative(process.cwd(), files.up)}`);
+      ui.dim(`  ${path.relative(process.cwd(), files.down)}`);
+    });
+    return;
+  }
   setRuntimeMode_generate_migration();
   await runModule(fileName, { ...options, releaseDb: true });
 };
 
+/**
+ * Snapshot the SQLite database of an app before a migration changes it,
+ * keeping the given number of snapshots. Other stores are left alone.
+ */
+async function snapshotBeforeMigration(fileName: string, config: Config, keepSnapshots?: string): Promise<void> {
+  const keep = keepSnapshots === undefined ? defaultSnapshotsKept : Number(keepSnapshots);
+  if (!Number.isInteger(keep) || keep < 0) {
+    throw new Error(`Invalid --keep-snapshots ${keepSnapshots}, expected a number of snapshots or 0 to skip them`);
+  }
+  const database = sqliteDatabaseFile(config);
+  if (keep === 0 || !database) return;
+  const snapshot = await snapshotDatabase(appDirOf(fileName), database, keep);
+  if (snapshot) {
+    ui.dim(`Snapshot of ${path.relative(process.cwd(), database)} saved to ${path.relative(process.cwd(), snapshot)}`);
+  }
+}
+
+/**
+ * Run a migration task against the database of an app, connected without
+ * changing its schema, and release the database afterwards. Failures are
+ * reported and exit with a non-zero status.
+ */
+async function runMigrationTask(
+  fileName: string,
+  options: ConfigOptions | undefined,
+  title: string,
+  task: (config: Config) => Promise<void>,
+): Promise<void> {
+  let failed = false;
+  try {
+    const r: boolean = await runPreInitTasks();
+    if (!r) {
+      throw new Error('Failed to initialize runtime');
+    }
+    await task(await resolveAppConfigOrExit(fileName, options));
+  } catch (err: unknown) {
+    failed = true;
+    ui.error(`${title} failed: ${err instanceof Error ? err.message : String(err)}`);
+  } finally {
+    await resetDefaultDatabase();
+  }
+  if (failed) process.exit(1);
+}
+
+/**
+ * Revert recorded migrations back to a version or by a number of
+ * migrations, after previewing their down statements. Destructive changes
+ * need --allow-destructive or a confirmation, as with applyMigration.
+ */
+export const migrateDownCommand = async (
+  fileName: string,
+  options: ConfigOptions & { to: string; allowDestructive?: boolean; dryRun?: boolean; keepSnapshots?: string },
+): Promise<void> => {
+  await runMigrationTask(fileName, options, 'Rollback', async config => {
+    const reverted = await rollbackMigrations(fileName, config, options.to, async (steps, changes) => {
+      printRollbackPreview(steps);
+      printRiskSummary(changes);
+      if (options.dryRun) return false;
+      if (!(await confirmDestructiveChanges(changes, { allowDestructive: options.allowDestructive }))) return false;
+      await snapshotBeforeMigration(fileName, config, options.keepSnapshots);
+      return true;
+    });
+    if (!reverted) {
+      ui.info(options.dryRun ? 'Dry run, nothing was reverted' : 'Rollback cancelled, the database was not changed');
+    } else if (reverted.length === 0) {
+      ui.info('Nothing to revert');
+    } else {
+      ui.success(`Reverted ${plural(reverted.length, 'migration')}: ${reverted.join(', ')}`);
+    }
+  });
+};
+
+/**
+ * Replace the SQLite database of an app with one of its snapshots.
+ */
+export const dbRestoreCommand = async (snapshot: string, fileName: string, options?: ConfigOptions): Promise<void> => {
+  await runMigrationTask(fileName, options, 'Restore', async config => {
+    const database = sqliteDatabaseFile(config);
+    if (!database) {
+      throw new Error('Snapshots are only taken of SQLite stores with a dbname');
+    }
+    const restored = await restoreSnapshot(appDirOf(fileName), database, snapshot);
+    ui.success(
+      `Restored ${path.relative(process.cwd(), database)} from ${path.relative(process.cwd(), restored.snapshot)}`,
+    );
+    if (restored.previous) {
+      ui.dim(`  The replaced database was saved to ${path.relative(process.cwd(), restored.previous)}`);
+    }
+  });
+};
+
+/**
+ * Report how the modules of an app changed between two git revisions, or
+ * between a revision and the working tree.
+ */
+export const schemaDiffCommand = async (
+  refA: string,
+  refB: string | undefined,
+  options: { app: string; format: string; output?: string },
+): Promise<void> => {
+  const { format } = options;
+  if (!isSchemaDiffFormat(format)) {
+    ui.error(`Invalid format "${format}". Expected one of: ${schemaDiffFormats.join(', ')}`);
+    process.exit(1);
+  }
+  try {
+    const before = await loadRevisionModules(options.app, refA);
+    const after = await loadRevisionModules(options.app, refB);
+    const changes = diffSchemas(before, after);
+    const labels = { from: refA, to: refB ?? 'working tree' };
+    if (format === 'text') {
+      printSchemaDiff(changes, labels);
+      return;
+    }
+    const content =
+      format === 'markdown'
+        ? schemaDiffMarkdown(changes, labels)
+        : `${JSON.stringify({ ...labels, modules: changes }, null, 2)}\n`;
+    if (options.output) {
+      await writeFile(path.resolve(process.cwd(), options.output), content, 'utf-8');
+    } else {
+      process.stdout.write(content);
+    }
+  } catch (err: unknown) {
+    ui.error(`Schema diff failed: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+};
+
+/**
+ * Export the records of an app as JSON or NDJSON, to a file or stdout, or as
+ * a CSV file per entity to a directory.
+ */
+export const dataExportCommand = async (
+  fileName: string,
+  options: ConfigOptions & { entity: string[]; format: string; out?: string },
+): Promise<void> => {
+  const { format, out } = options;
+  await runMigrationTask(fileName, options, 'Export', async config => {
+    if (!isDataFormat(format)) {
+      throw new Error(`Unknown format ${format}, expected one of ${dataFormats.join(', ')}`);
+    }
+    if (format === 'csv' && !out) {
+      throw new Error('--out is required with --format csv, as a directory for the csv files');
+    }
+    const data = await exportData(fileName, config, options.entity, { quiet: !out });
+    const { records, links } = dataCounts(data);
+    const exported = `${plural(records, 'record')} and ${plural(links, 'link')}`;
+    if (format === 'csv') {
+      const files = await writeCsvData(data, path.resolve(process.cwd(), out ?? '.'));
+      ui.success(`Exported ${exported} to ${plural(files.length, 'csv file')} in ${out}`);
+    } else if (out) {
+      await writeFile(path.resolve(process.cwd(), out), formatData(data, format));
+      ui.success(`Exported ${exported} to ${out}`);
+    } else {
+      process.stdout.write(formatData(data, format));
+    }
+  });
+};
+
+/**
+ * Import records written by data export. Exits with a non-zero status when
+ * any record could not be imported.
+ */
+export const dataImportCommand = async (
+  input: string,
+  fileName: string,
+  options?: ConfigOptions & { format?: string },
+): Promise<void> => {
+  let failed = false;
+  await runMigrationTask(fileName, options, 'Import', async config => {
+    const source = path.resolve(process.cwd(), input);
+    if (!existsSync(source)) {
+      throw new Error(`${input} does not exist`);
+    }
+    const format = options?.format ?? (await inferDataFormat(source));
+    if (!format || !isDataFormat(format)) {
+      throw new Error(`Unknown format ${format ?? `of ${input}`}, expected one of ${dataFormats.join(', ')}`);
+    }
+    const result = await importData(fileName, config, source, format);
+    ui.success(`Imported ${plural(result.records, 'record')} and ${plural(result.links, 'link')} from ${input}`);
+    if (result.failures.length > 0) {
+      result.failures.forEach(f => ui.step('✗', ` ${f.entity} `, `${f.record}: ${f.message}`));
+      ui.error(`${plural(result.failures.length, 'record')} could not be imported`);
+      failed = true;
+    }
+  });
+  if (failed) process.exit(1);
+};
+
+/**
+ * List the migrations recorded in the database of an app and the changes
+ * still needed to bring it up to the schema of the modules. Exits with a
+ * non-zero status when the schema is out of date.
+ */
+export const migrateStatusCommand = async (
+  fileName: string,
+  options?: ConfigOptions & { json?: boolean },
+): Promise<void> => {
+  let upToDate = false;
+  try {
+    const r: boolean = await runPreInitTasks();
+    if (!r) {
+      throw new Error('Failed to initialize runtime');
+    }
+    const config: Config = await resolveAppConfigOrExit(fileName, options);
+    const status = await migrationStatus(fileName, config, { quiet: options?.json });
+    if (options?.json) {
+      process.stdout.write(`${JSON.stringify(status, null, 2)}\n`);
+    } else {
+      printMigrationStatus(status);
+    }
+    upToDate = status.upToDate;
+  } catch (err: unknown) {
+    ui.error(`Migration status failed: ${err instanceof Error ? err.message : String(err)}`);
+  } finally {
+    await resetDefaultDatabase();
+  }
+  process.exit(upToDate ? 0 : 1);
+};
+
 export const generateDoc = async (
   fileName: string,
   options?: { outputHtml?: boolean; outputPostman?: boolean },
@@ -727,16 +1849,25 @@ export const generateDoc = async (
 
 export const replCommand = async (
   directory?: string,
-  options?: { watch?: boolean; quiet?: boolean },
+  options?: { watch?: boolean; quiet?: boolean; profile?: string; historySize?: string },
 ): Promise<void> => {
   try {
+    const historySize = options?.historySize === undefined ? defaultHistorySize : Number(options.historySize);
+    if (!Number.isInteger(historySize) || historySize < 0) {
+      throw new Error(`Invalid --history-size ${options?.historySize}, expected a number of entries or 0 to keep none`);
+    }
     await startRepl(directory || '.', {
       watch: options?.watch,
       quiet: options?.quiet,
       verbose: !options?.quiet,
+      profile: options?.profile,
+      historySize,
     });
   } catch (error) {
     ui.error(`Failed to start REPL: ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof ConfigError) {
+      error.details.forEach(detail => ui.dim(`  ${detail}`));
+    }
     process.exit(1);
   }
 };
@@ -812,7 +1943,7 @@ export const generateUICommand = async (
 
 export const studioCommand = async (
   projectPath?: string,
-  options?: { port?: string; serverOnly?: boolean },
+  options?: { port?: string; serverOnly?: boolean; set?: string[]; profile?: string },
 ): Promise<void> => {
   try {
     const port = parseInt(options?.port || '4000', 10);
@@ -820,7 +1951,9 @@ export const studioCommand = async (
       ui.error('Invalid port number. Port must be between 1 and 65535.');
       process.exit(1);
     }
-    await startStudio(projectPath || '.', port, options?.serverOnly);
+    // Checked here so that a malformed --set fails before the app is started
+    parseSetOverrides(options?.set ?? []);
+    await startStudio(projectPath || '.', port, options?.serverOnly, { set: options?.set, profile: options?.profile });
   } catch (error) {
     ui.error(`Failed to start Studio: ${error instanceof Error ? error.message : String(error)}`);
     process.exit(1);
@@ -899,24 +2032,3 @@ export const forkCommand = async (
     process.exit(1);
   }
 };
-
-interface OpenApiConfigItem {
-  name: string;
-  specUrl: string;
-  baseUrl?: string;
-}
-
-async function loadOpenApiSpec(openApiConfig: OpenApiConfigItem[]) {
-  for (const cfg of openApiConfig) {
-    const api = new OpenAPIClientAxios({ definition: cfg.specUrl });
-    await api.init();
-    const client = await api.getClient();
-    client.defaults.baseURL = cfg.baseUrl ?? cfg.specUrl.substring(0, cfg.specUrl.lastIndexOf('/'));
-    // Type assertion needed because openapi-client-axios is installed in both
-    // agentlang-cli and agentlang node_modules, causing TypeScript to see them as incompatible
-
-    const n = await registerOpenApiModule(cfg.name, { api, client });
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-    logger.info(`OpenAPI module '${n}' registered`);
-  }
-}
@@ -0,0 +1,37 @@
+import type { Config } from 'agentlang/out/runtime/state.js';
+import {
+  checkPendingChanges,
+  executeStatements,
+  openMigrationDatabase,
+  pendingSchemaChanges,
+  recordMigration,
+  tableColumns,
+} from './database.js';
+import { classifyChanges, type ConfirmChanges } from './risk.js';
+
+export interface AppliedMigration {
+  appVersion: string;
+  // Zero when the schema was already up to date
+  statements: number;
+}
+
+/**
+ * Applies the pending schema changes of an app as applyMigration does: they
+ * are first simulated, then classified and passed to `confirm`, and only
+ * applied, in a single transaction, and recorded as the migration of the app
+ * version when it accepts them. Returns undefined when they are refused.
+ */
+export async function applyPendingMigration(
+  fileName: string,
+  config: Config,
+  confirm: ConfirmChanges,
+): Promise<AppliedMigration | undefined> {
+  const { appVersion, dataSource } = await openMigrationDatabase(fileName, config);
+  const changes = await pendingSchemaChanges(dataSource);
+  if (changes.ups.length === 0) return { appVersion, statements: 0 };
+  await checkPendingChanges(dataSource);
+  if (!(await confirm(await classifyChanges(changes.ups, table => tableColumns(dataSource, table))))) return undefined;
+  await executeStatements(dataSource, changes.ups);
+  await recordMigration(appVersion, changes);
+  return { appVersion, statements: changes.ups.length };
+}
@@ -0,0 +1,206 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import type { ApplicationSpec } from 'agentlang/out/runtime/loader.js';
+import type { Config } from 'agentlang/out/runtime/state.js';
+import type { Instance } from 'agentlang/out/runtime/module.js';
+import { formatValue } from '../data/statements.js';
+import { withLoaderOutputOnStderr } from '../utils/loaderOutput.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modLoader: typeof import('agentlang/out/runtime/loader.js') = await import(`${agPath}/out/runtime/loader.js`);
+const { getAppSpec, load } = modLoader;
+const modDefs: typeof import('agentlang/out/runtime/defs.js') = await import(`${agPath}/out/runtime/defs.js`);
+const { setRuntimeMode_prod } = modDefs;
+const modDatabase: typeof import('agentlang/out/runtime/resolvers/sqldb/database.js') = await import(
+  `${agPath}/out/runtime/resolvers/sqldb/database.js`
+);
+const { initDatabase, simulateMigration } = modDatabase;
+const modInterpreter: typeof import('agentlang/out/runtime/interpreter.js') = await import(
+  `${agPath}/out/runtime/interpreter.js`
+);
+const { Environment, lookupAllInstances, parseAndEvaluateStatement } = modInterpreter;
+const modCore: typeof import('agentlang/out/runtime/modules/core.js') = await import(
+  `${agPath}/out/runtime/modules/core.js`
+);
+const { migrationDowns, migrationUps, saveMigration } = modCore;
+
+type DataSource = NonNullable<typeof modDatabase.defaultDataSource>;
+
+// Entity in which the runtime records the migration of each app version
+export const migrationEntity = 'agentlang/Migration';
+
+export interface MigrationRecord {
+  appVersion: string;
+  ups: string[];
+  // In the order they run
+  downs: string[];
+  created?: Date;
+  lastModified?: Date;
+}
+
+export interface SchemaChanges {
+  // Statements that bring the database up to the schema of the modules
+  ups: string[];
+  // Statements that revert them, in the order they run
+  downs: string[];
+}
+
+export interface MigrationDatabase {
+  appSpec: ApplicationSpec;
+  // Version the runtime records migrations under
+  appVersion: string;
+  dataSource: DataSource;
+}
+
+/**
+ * Loads the app and connects to its store without changing the schema: the
+ * runtime only synchronizes tables with the modules in development mode, and
+ * refuses to start in production mode when they differ, which is expected
+ * here. No init functions or timers of the app are run. With `quiet`, the
+ * progress lines the loader prints go to stderr.
+ */
+export async function openMigrationDatabase(
+  fileName: string,
+  config: Config,
+  options?: { quiet?: boolean },
+): Promise<MigrationDatabase> {
+  const loadApp = () => load(fileName);
+  await (options?.quiet ? withLoaderOutputOnStderr(loadApp) : loadApp());
+
+  setRuntimeMode_prod();
+  try {
+    await initDatabase(config.store);
+  } catch (error) {
+    if ((error as { agentlangCode?: string }).agentlangCode !== 'AL_DB_SCHEMA_MISMATCH_PROD') throw error;
+  }
+  const dataSource = modDatabase.defaultDataSource;
+  if (!dataSource?.isInitialized) {
+    throw new Error('Failed to connect to the database');
+  }
+  // The spec read from package.json, unlike the one returned by load
+  const appSpec = getAppSpec();
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+  return { appSpec, appVersion: String(appSpec.version), dataSource };
+}
+
+/**
+ * Differences between the modules and the tables of the database. Foreign
+ * keys of relationships are created by the runtime outside of the ORM, which
+ * always proposes to drop them, so those statements are left out as the
+ * runtime does when it checks the schema in production mode.
+ */
+export async function pendingSchemaChanges(dataSource: DataSource): Promise<SchemaChanges> {
+  const sql = await dataSource.driver.createSchemaBuilder().log();
+  const keep = (query: string) => !/DROP CONSTRAINT\s+"FK_/i.test(query);
+  return {
+    ups: sql.upQueries.map(q => q.query).filter(keep),
+    // The ORM lists the down queries in the order of the up queries they revert
+    downs: sql.downQueries
+      .map(q => q.query)
+      .filter(keep)
+      .reverse(),
+  };
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = value instanceof Date ? value : new Date(value as string);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Statements of a recorded migration, with the backquotes escaped for storage restored
+function statementsOf(queries: string[] | undefined): string[] {
+  return (queries ?? []).filter(q => q.trim().length > 0).map(q => q.replaceAll('\\`', '`'));
+}
+
+/**
+ * Migrations recorded by the runtime, oldest first. Returns undefined when
+ * the database has no migration table yet.
+ */
+export async function readMigrationHistory(): Promise<MigrationRecord[] | undefined> {
+  let instances: Instance[];
+  try {
+    instances = (await lookupAllInstances(migrationEntity)) ?? [];
+  } catch {
+    return undefined;
+  }
+  return instances
+    .map(inst => {
+      const meta = inst.metaAttributeValues() as { created?: unknown; lastModified?: unknown };
+      return {
+        appVersion: String(inst.lookup('appVersion')),
+        ups: statementsOf(migrationUps(inst)),
+        downs: statementsOf(migrationDowns(inst)).reverse(),
+        created: toDate(meta.created),
+        lastModified: toDate(meta.lastModified),
+      };
+    })
+    .sort((a, b) => (a.created?.getTime() ?? 0) - (b.created?.getTime() ?? 0));
+}
+
+/**
+ * Records a migration under an app version, replacing the one recorded for
+ * that version, as applyMigration does. The statements are stored the way the
+ * runtime stores the ones it generates: with backquotes escaped, and the down
+ * statements in the order the ORM lists them, the reverse of the one they run
+ * in.
+ */
+export async function recordMigration(appVersion: string, changes: SchemaChanges): Promise<void> {
+  const escape = (queries: string[]) => queries.map(q => q.replaceAll('`', '\\`'));
+  if (!(await saveMigration(appVersion, escape(changes.ups), escape([...changes.downs].reverse())))) {
+    throw new Error(`Failed to record the migration of version ${appVersion}`);
+  }
+}
+
+// Removes the migration recorded for an app version, once it has been reverted
+export async function forgetMigration(appVersion: string): Promise<void> {
+  const env = new Environment(`migrations-${appVersion}-env`);
+  await parseAndEvaluateStatement(
+    `purge {${migrationEntity} {appVersion? ${formatValue(appVersion)}}}`,
+    undefined,
+    env,
+  );
+  await env.commitAllTransactions();
+}
+
+// Runs statements in a single transaction, rolled back when one of them fails
+export async function executeStatements(dataSource: DataSource, statements: string[]): Promise<void> {
+  const queryRunner = dataSource.createQueryRunner();
+  try {
+    await queryRunner.startTransaction();
+    for (const statement of statements) {
+      await queryRunner.query(statement);
+    }
+    await queryRunner.commitTransaction();
+  } catch (error) {
+    if (queryRunner.isTransactionActive) await queryRunner.rollbackTransaction();
+    throw error;
+  } finally {
+    await queryRunner.release();
+  }
+}
+
+// Columns of a table with their types, or undefined when the database has no such table
+export async function tableColumns(dataSource: DataSource, table: string): Promise<Map<string, string> | undefined> {
+  const queryRunner = dataSource.createQueryRunner();
+  try {
+    const found = await queryRunner.getTable(table);
+    return found && new Map(found.columns.map(c => [c.name, c.length ? `${c.type}(${c.length})` : c.type]));
+  } finally {
+    await queryRunner.release();
+  }
+}
+
+// Runs the pending changes against a copy of the schema, as applyMigration does first
+export async function checkPendingChanges(dataSource: DataSource): Promise<void> {
+  const simulation = await simulateMigration(dataSource);
+  if (!simulation.success) {
+    throw new Error(`Migration simulation failed:\n  ${simulation.errors.join('\n  ')}`);
+  }
+}
@@ -0,0 +1,86 @@
+import type { Config } from 'agentlang/out/runtime/state.js';
+import { ui } from '../ui/index.js';
+import { plural } from '../validation/report.js';
+import {
+  executeStatements,
+  forgetMigration,
+  openMigrationDatabase,
+  readMigrationHistory,
+  tableColumns,
+  type MigrationRecord,
+} from './database.js';
+import { classifyChanges, type SchemaChange } from './risk.js';
+
+// Decides whether the migrations are reverted, once their down scripts are classified
+export type ConfirmRollback = (steps: MigrationRecord[], changes: SchemaChange[]) => Promise<boolean>;
+
+/**
+ * Migrations to revert, newest first, to go back to a recorded version, which
+ * is kept, or by a number of migrations.
+ */
+export function planRollback(history: MigrationRecord[], to: string): MigrationRecord[] {
+  const index = history.findIndex(m => m.appVersion === to);
+  let steps: MigrationRecord[];
+  if (index >= 0) {
+    steps = history.slice(index + 1);
+  } else if (/^\d+$/.test(to)) {
+    const count = Number(to);
+    if (count > history.length) {
+      throw new Error(`Cannot revert ${plural(count, 'migration')}, only ${history.length} recorded`);
+    }
+    steps = count === 0 ? [] : history.slice(-count);
+  } else {
+    throw new Error(
+      `No migration is recorded for version ${to}, expected a recorded version or a number of migrations`,
+    );
+  }
+  const irreversible = steps.filter(m => m.downs.length === 0).map(m => m.appVersion);
+  if (irreversible.length > 0) {
+    throw new Error(`No down statements are recorded for ${irreversible.join(', ')}, so they cannot be reverted`);
+  }
+  return steps.reverse();
+}
+
+export function printRollbackPreview(steps: MigrationRecord[]): void {
+  ui.header('Migrations to revert');
+  for (const step of steps) {
+    ui.blank();
+    ui.row([
+      { text: `  ${step.appVersion} `, color: 'cyan' },
+      { text: plural(step.downs.length, 'down statement'), dimColor: true },
+    ]);
+    step.downs.forEach(query => ui.plain(`    ${query};`));
+  }
+  ui.blank();
+}
+
+/**
+ * Reverts the recorded migrations back to a version or by a number of
+ * migrations, running their down statements newest first in a single
+ * transaction, then forgets them. Nothing runs until `confirm` accepts the
+ * migrations and the classified changes; undefined is returned when it
+ * refuses them. Returns the reverted versions otherwise.
+ */
+export async function rollbackMigrations(
+  fileName: string,
+  config: Config,
+  to: string,
+  confirm: ConfirmRollback,
+): Promise<string[] | undefined> {
+  const { dataSource } = await openMigrationDatabase(fileName, config);
+  const history = await readMigrationHistory();
+  if (!history || history.length === 0) {
+    throw new Error('No migrations are recorded in the database');
+  }
+  const steps = planRollback(history, to);
+  if (steps.length === 0) return [];
+  const downs = steps.flatMap(step => step.downs);
+  if (!(await confirm(steps, await classifyChanges(downs, table => tableColumns(dataSource, table))))) {
+    return undefined;
+  }
+  await executeStatements(dataSource, downs);
+  for (const step of steps) {
+    await forgetMigration(step.appVersion);
+  }
+  return steps.map(step => step.appVersion);
+}
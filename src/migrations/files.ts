@@ -0,0 +1,155 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import type { Config } from 'agentlang/out/runtime/state.js';
+import {
+  executeStatements,
+  openMigrationDatabase,
+  pendingSchemaChanges,
+  recordMigration,
+  tableColumns,
+  type SchemaChanges,
+} from './database.js';
+import { classifyChanges, type ConfirmChanges } from './risk.js';
+
+export interface MigrationFiles {
+  number: number;
+  up: string;
+  down: string;
+  statements: number;
+}
+
+export interface AppliedMigrationFile {
+  appVersion: string;
+  statements: number;
+  // Down script recorded with the migration, when one was found next to the file
+  downFile?: string;
+  // Changes still needed after the script, when it does not cover the whole schema
+  remaining: string[];
+}
+
+const migrationFilePattern = /^(\d+)_.*\.(up|down)\.sql$/;
+
+async function nextMigrationNumber(outDir: string): Promise<number> {
+  if (!existsSync(outDir)) return 1;
+  const numbers = (await readdir(outDir)).map(name => Number(migrationFilePattern.exec(name)?.[1] ?? 0));
+  return Math.max(0, ...numbers) + 1;
+}
+
+function formatScript(header: string[], statements: string[]): string {
+  const comments = header.map(line => `-- ${line}`).join('\n');
+  return `${comments}\n\n${statements.map(s => `${s.trim()};`).join('\n\n')}\n`;
+}
+
+/**
+ * Writes a migration as numbered up and down scripts, as in
+ * 0003_1.2.0.up.sql, numbered after the scripts already in the directory.
+ */
+export async function writeMigrationFiles(
+  outDir: string,
+  appVersion: string,
+  changes: SchemaChanges,
+): Promise<MigrationFiles> {
+  await mkdir(outDir, { recursive: true });
+  const number = await nextMigrationNumber(outDir);
+  const base = `${String(number).padStart(4, '0')}_${appVersion.replace(/[^\w.-]/g, '_')}`;
+  const generated = `Generated by agent generateMigration for version ${appVersion} on ${new Date().toISOString()}`;
+  const up = path.join(outDir, `${base}.up.sql`);
+  const down = path.join(outDir, `${base}.down.sql`);
+  await writeFile(
+    up,
+    formatScript([generated, `Apply with: agent applyMigration --apply-file ${base}.up.sql`], changes.ups),
+  );
+  await writeFile(down, formatScript([generated, `Reverts ${base}.up.sql`], changes.downs));
+  return { number, up, down, statements: changes.ups.length };
+}
+
+/**
+ * Splits a SQL script into statements at the semicolons that are not within
+ * quotes or comments. Comments are dropped.
+ */
+export function splitSqlStatements(text: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '-' && text[i + 1] === '-') {
+      const end = text.indexOf('\n', i);
+      i = end < 0 ? text.length : end;
+    } else if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end < 0 ? text.length : end + 2;
+    } else if (c === "'" || c === '"' || c === '`') {
+      // Quotes are escaped by doubling them
+      let end = i + 1;
+      while (end < text.length && (text[end] !== c || text[end + 1] === c)) {
+        end += text[end] === c ? 2 : 1;
+      }
+      current += text.substring(i, end + 1);
+      i = end + 1;
+    } else if (c === ';') {
+      statements.push(current);
+      current = '';
+      i++;
+    } else {
+      current += c;
+      i++;
+    }
+  }
+  statements.push(current);
+  return statements.map(s => s.trim()).filter(s => s.length > 0);
+}
+
+/**
+ * Generates the migration for the pending schema changes of an app, records
+ * it in the database as generateMigration does, and writes it to numbered
+ * scripts in a directory. Returns undefined when there are no changes.
+ */
+export async function generateMigrationFiles(
+  fileName: string,
+  config: Config,
+  outDir: string,
+): Promise<MigrationFiles | undefined> {
+  const { appVersion, dataSource } = await openMigrationDatabase(fileName, config);
+  const changes = await pendingSchemaChanges(dataSource);
+  if (changes.ups.length === 0) return undefined;
+  await recordMigration(appVersion, changes);
+  return writeMigrationFiles(outDir, appVersion, changes);
+}
+
+/**
+ * Applies a SQL script, which may have been edited after it was generated, in
+ * a single transaction and records it as the migration of the current app
+ * version. For a .up.sql script, the statements of the matching .down.sql
+ * script are recorded as the way back. The script is only applied once
+ * `confirm` accepts its classified changes, otherwise undefined is returned.
+ */
+export async function applyMigrationFile(
+  fileName: string,
+  config: Config,
+  scriptFile: string,
+  confirm: ConfirmChanges,
+): Promise<AppliedMigrationFile | undefined> {
+  if (!existsSync(scriptFile)) {
+    throw new Error(`Migration script ${scriptFile} does not exist`);
+  }
+  const ups = splitSqlStatements(await readFile(scriptFile, 'utf-8'));
+  if (ups.length === 0) {
+    throw new Error(`Migration script ${scriptFile} has no statements`);
+  }
+  const downFile = scriptFile.endsWith('.up.sql') ? scriptFile.replace(/\.up\.sql$/, '.down.sql') : undefined;
+  const downs = downFile && existsSync(downFile) ? splitSqlStatements(await readFile(downFile, 'utf-8')) : [];
+
+  const { appVersion, dataSource } = await openMigrationDatabase(fileName, config);
+  if (!(await confirm(await classifyChanges(ups, table => tableColumns(dataSource, table))))) return undefined;
+  await executeStatements(dataSource, ups);
+  await recordMigration(appVersion, { ups, downs });
+  const remaining = await pendingSchemaChanges(dataSource);
+  return {
+    appVersion,
+    statements: ups.length,
+    downFile: downs.length > 0 ? downFile : undefined,
+    remaining: remaining.ups,
+  };
+}
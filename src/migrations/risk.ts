@@ -0,0 +1,297 @@
+import { createInterface } from 'node:readline/promises';
+import { ui, ansi } from '../ui/index.js';
+import { plural } from '../validation/report.js';
+
+export type ChangeKind = 'additive' | 'rename' | 'alter' | 'destructive';
+
+export interface SchemaChange {
+  kind: ChangeKind;
+  description: string;
+}
+
+// Decides whether changes are applied, once they are classified
+export type ConfirmChanges = (changes: SchemaChange[]) => Promise<boolean>;
+
+// Columns of a table of the database with their types, undefined when there is no such table
+export type ColumnLookup = (table: string) => Promise<Map<string, string> | undefined>;
+
+const changeKinds: ChangeKind[] = ['additive', 'rename', 'alter', 'destructive'];
+
+// An identifier quoted with "", `` or [] or not at all
+const part = String.raw`(?:"[^"]+"|\x60[^\x60]+\x60|\[[^\]]+\]|[\w$]+)`;
+// A possibly schema-qualified name
+const name = `(${part}(?:\\.${part})?)`;
+
+// Keywords that follow ADD and DROP for constraints and indexes rather than columns
+const notConstraint = String.raw`(?!(?:constraint|primary|unique|foreign|check|index|key)\b)`;
+
+// Unquoted last part of a name, or the text as is when it is not a name
+function unquote(text: string): string {
+  if (!new RegExp(`^${name}$`).test(text)) return text;
+  const last = new RegExp(`${part}$`).exec(text)?.[0] ?? text;
+  return /^["`[]/.test(last) ? last.substring(1, last.length - 1) : last;
+}
+
+// Table rebuilt by SQLite through a temporary_ copy
+function rebuiltTable(copy: string): string | undefined {
+  return copy.startsWith('temporary_') ? copy.substring('temporary_'.length) : undefined;
+}
+
+function match(statement: string, pattern: string): string[] | undefined {
+  const m = new RegExp(`^${pattern}`, 'i').exec(statement);
+  return m ? m.slice(1).map(g => (g === undefined ? '' : unquote(g))) : undefined;
+}
+
+// Items of a parenthesized list, split at the commas that are not nested in parentheses
+function listItems(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const c of text) {
+    if (c === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (c === '(') depth++;
+    if (c === ')') depth--;
+    current += c;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+}
+
+function parenthesized(text: string, from: number): string {
+  const start = text.indexOf('(', from);
+  let depth = 0;
+  for (let i = start; i >= 0 && i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) return text.substring(start + 1, i);
+  }
+  return '';
+}
+
+// Columns defined by a CREATE TABLE statement, leaving out the table constraints
+function createdColumns(statement: string): Map<string, string> {
+  const columns = new Map<string, string>();
+  for (const item of listItems(parenthesized(statement, 0))) {
+    if (/^(constraint|primary|unique|foreign|check)\b/i.test(item)) continue;
+    const m = new RegExp(`^${name}\\s+([\\w ]+?(?:\\([^)]*\\))?)(?:\\s|$)`, 'i').exec(item);
+    if (m) columns.set(unquote(m[1]), m[2].toLowerCase());
+  }
+  return columns;
+}
+
+function normalizeType(type: string): string {
+  return type.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * A table that SQLite rebuilds to change its columns. The new table is built
+ * as a temporary_ copy that replaces the old one, or, in down scripts, the old
+ * table is moved to a temporary_ copy that is dropped once its rows are copied.
+ */
+interface Rebuild {
+  // The old table was moved to the temporary_ copy
+  movedAside: boolean;
+  columns: Map<string, string>;
+  targets: string[];
+  sources: string[];
+}
+
+function rebuildChanges(table: string, rebuild: Rebuild, existing?: Map<string, string>): SchemaChange[] {
+  if (!existing) {
+    return [{ kind: 'destructive', description: `Rebuild table ${table}, whose columns cannot be read` }];
+  }
+  const changes: SchemaChange[] = [];
+  for (const column of existing.keys()) {
+    if (!rebuild.sources.includes(column)) {
+      changes.push({ kind: 'destructive', description: `Drop column ${table}.${column}` });
+    }
+  }
+  rebuild.sources.forEach((source, i) => {
+    const target = rebuild.targets[i];
+    if (target !== source) {
+      changes.push({ kind: 'rename', description: `Rename column ${table}.${source} to ${target}` });
+    }
+    const from = existing.get(source);
+    const to = rebuild.columns.get(target);
+    if (from && to && normalizeType(from) !== normalizeType(to)) {
+      changes.push({
+        kind: 'destructive',
+        description: `Change type of ${table}.${target} from ${from} to ${to}, values may not convert`,
+      });
+    }
+  });
+  for (const column of rebuild.columns.keys()) {
+    if (!rebuild.targets.includes(column)) {
+      changes.push({ kind: 'additive', description: `Add column ${table}.${column}` });
+    }
+  }
+  if (changes.length === 0) {
+    changes.push({ kind: 'alter', description: `Rebuild table ${table} to change its constraints` });
+  }
+  return changes;
+}
+
+function classifyStatement(statement: string): SchemaChange {
+  let m: string[] | undefined;
+  if ((m = match(statement, String.raw`create\s+table\s+(?:if\s+not\s+exists\s+)?${name}`))) {
+    return { kind: 'additive', description: `Create table ${m[0]}` };
+  }
+  if ((m = match(statement, String.raw`create\s+(?:unique\s+)?index\s+(?:if\s+not\s+exists\s+)?${name}`))) {
+    return { kind: 'additive', description: `Create index ${m[0]}` };
+  }
+  if ((m = match(statement, String.raw`drop\s+table\s+(?:if\s+exists\s+)?${name}`))) {
+    return { kind: 'destructive', description: `Drop table ${m[0]}` };
+  }
+  if ((m = match(statement, String.raw`update\s+${name}`))) {
+    return { kind: 'alter', description: `Update the rows of ${m[0]}` };
+  }
+  if ((m = match(statement, String.raw`(?:truncate(?:\s+table)?|delete\s+from)\s+${name}`))) {
+    return { kind: 'destructive', description: `Delete the rows of ${m[0]}` };
+  }
+  if ((m = match(statement, String.raw`alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?${name}\s+`))) {
+    const table = m[0];
+    const rest = statement.replace(
+      new RegExp(String.raw`^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?${name}\s+`, 'i'),
+      '',
+    );
+    if ((m = match(rest, String.raw`add\s+(?:column\s+)?${notConstraint}${name}`))) {
+      return { kind: 'additive', description: `Add column ${table}.${m[0]}` };
+    }
+    if ((m = match(rest, String.raw`drop\s+(?:column\s+)?(?:if\s+exists\s+)?${notConstraint}${name}`))) {
+      return { kind: 'destructive', description: `Drop column ${table}.${m[0]}` };
+    }
+    if ((m = match(rest, String.raw`rename\s+(?:column\s+)?${name}\s+to\s+${name}`))) {
+      return { kind: 'rename', description: `Rename column ${table}.${m[0]} to ${m[1]}` };
+    }
+    if ((m = match(rest, String.raw`rename\s+to\s+${name}`))) {
+      return { kind: 'rename', description: `Rename table ${table} to ${m[0]}` };
+    }
+    if ((m = match(rest, String.raw`alter\s+(?:column\s+)?${name}\s+(?:set\s+data\s+)?type\s+(.+?)(?:\s+using\s|$)`))) {
+      return {
+        kind: 'destructive',
+        description: `Change type of ${table}.${m[0]} to ${m[1]}, values may not convert`,
+      };
+    }
+    return { kind: 'alter', description: `Alter table ${table}: ${rest.split(/\s+/).slice(0, 3).join(' ')}` };
+  }
+  return { kind: 'alter', description: statement.split(/\s+/).slice(0, 3).join(' ') };
+}
+
+/**
+ * Classifies the statements of a migration by their effect on the data:
+ * additive changes only add tables, columns and indexes, renames keep the
+ * data under another name, alter changes keep the data but change the
+ * schema, and destructive changes may lose data, as dropped tables and
+ * columns or changed column types. The tables SQLite rebuilds to change
+ * their columns are compared with the ones of the database.
+ */
+export async function classifyChanges(statements: string[], columnsOf: ColumnLookup): Promise<SchemaChange[]> {
+  const changes: SchemaChange[] = [];
+  const rebuilds = new Map<string, Rebuild>();
+  // Columns of the tables as they are after the rebuilds seen so far
+  const rebuiltColumns = new Map<string, Map<string, string>>();
+  const finish = async (table: string, rebuild: Rebuild) => {
+    const existing = rebuiltColumns.get(table) ?? (await columnsOf(table));
+    changes.push(...rebuildChanges(table, rebuild, existing));
+    rebuiltColumns.set(table, rebuild.columns);
+    rebuilds.delete(table);
+  };
+  for (const statement of statements.map(s => s.trim())) {
+    const renamed = match(statement, String.raw`alter\s+table\s+${name}\s+rename\s+to\s+${name}`);
+    if (renamed && renamed[1] === `temporary_${renamed[0]}`) {
+      rebuilds.set(renamed[0], { movedAside: true, columns: new Map(), targets: [], sources: [] });
+      continue;
+    }
+    const replaced = renamed && rebuilds.get(renamed[1]);
+    if (renamed && replaced && !replaced.movedAside) {
+      await finish(renamed[1], replaced);
+      continue;
+    }
+    const created = match(statement, String.raw`create\s+table\s+${name}`);
+    const copyOf = created && rebuiltTable(created[0]);
+    if (copyOf) {
+      rebuilds.set(copyOf, { movedAside: false, columns: createdColumns(statement), targets: [], sources: [] });
+      continue;
+    }
+    const recreated = created && rebuilds.get(created[0]);
+    if (recreated?.movedAside) {
+      recreated.columns = createdColumns(statement);
+      continue;
+    }
+    const inserted = match(statement, String.raw`insert\s+into\s+${name}\s*\(`);
+    const filled = inserted && rebuilds.get(rebuiltTable(inserted[0]) ?? inserted[0]);
+    if (filled) {
+      // INSERT INTO "temporary_t"(targets) SELECT sources FROM "t", or the other way around
+      const select = /\)\s*select\s+([\s\S]*?)\s+from\s/i.exec(statement);
+      filled.targets = listItems(parenthesized(statement, 0)).map(unquote);
+      filled.sources = listItems(select?.[1] ?? '').map(unquote);
+      continue;
+    }
+    const dropped = match(statement, String.raw`drop\s+table\s+${name}`);
+    const emptied = dropped && rebuilds.get(rebuiltTable(dropped[0]) ?? dropped[0]);
+    if (dropped && emptied) {
+      if (emptied.movedAside) await finish(rebuiltTable(dropped[0]) ?? dropped[0], emptied);
+      continue;
+    }
+    changes.push(classifyStatement(statement));
+  }
+  return changes;
+}
+
+export function printRiskSummary(changes: SchemaChange[]): void {
+  const colors: Record<ChangeKind, string> = {
+    additive: 'green',
+    rename: 'yellow',
+    alter: 'yellow',
+    destructive: 'red',
+  };
+  ui.bold('Risk summary');
+  for (const change of changes) {
+    ui.row([
+      { text: `  ${change.kind.padEnd(12)} `, color: colors[change.kind] },
+      { text: change.description, dimColor: change.kind !== 'destructive' },
+    ]);
+  }
+  const counts = changeKinds
+    .map(kind => ({ kind, count: changes.filter(c => c.kind === kind).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ kind, count }) => `${count} ${kind}`);
+  ui.dim(`  ${counts.length > 0 ? counts.join(', ') : 'No changes'}`);
+  ui.blank();
+}
+
+/**
+ * Decides whether a migration with destructive changes may be applied: with
+ * --allow-destructive, or when the user confirms it interactively. Without a
+ * terminal to ask, the migration is refused.
+ */
+export async function confirmDestructiveChanges(
+  changes: SchemaChange[],
+  options: { allowDestructive?: boolean },
+): Promise<boolean> {
+  const destructive = changes.filter(c => c.kind === 'destructive').length;
+  if (destructive === 0) return true;
+  if (options.allowDestructive) {
+    ui.warn(`Applying ${plural(destructive, 'destructive change')} as --allow-destructive is set`);
+    return true;
+  }
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    throw new Error(
+      `Refusing to apply ${plural(destructive, 'destructive change')} without --allow-destructive in a non-interactive session`,
+    );
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = (
+      await rl.question(ansi.cyan(`Apply ${plural(destructive, 'destructive change')} that may lose data? (y/N) `))
+    )
+      .trim()
+      .toLowerCase();
+    return answer === 'y' || answer === 'yes';
+  } finally {
+    rl.close();
+  }
+}
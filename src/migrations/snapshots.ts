@@ -0,0 +1,121 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, rm } from 'node:fs/promises';
+import Database from 'better-sqlite3';
+import type { Config } from 'agentlang/out/runtime/state.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modDatabase: typeof import('agentlang/out/runtime/resolvers/sqldb/database.js') = await import(
+  `${agPath}/out/runtime/resolvers/sqldb/database.js`
+);
+const { getStoreDbType } = modDatabase;
+
+// Snapshots are kept per app, relative to its directory
+export const snapshotDir = path.join('.agentlang', 'snapshots');
+
+export const defaultSnapshotsKept = 5;
+
+export interface RestoredSnapshot {
+  database: string;
+  snapshot: string;
+  // Snapshot of the database as it was before the restore
+  previous?: string;
+}
+
+/**
+ * File of the SQLite database of an app, resolved as the runtime does, or
+ * undefined when the store is not SQLite or has no fixed file name.
+ */
+export function sqliteDatabaseFile(config: Config): string | undefined {
+  if (getStoreDbType(config.store) !== 'sqlite') return undefined;
+  const store = config.store as { dbname?: string } | undefined;
+  const dbname = store?.dbname ?? process.env.AGENTLANG_DB_NAME;
+  return dbname ? path.resolve(process.cwd(), dbname) : undefined;
+}
+
+function snapshotPrefix(database: string): string {
+  return `${path.basename(database, path.extname(database))}-`;
+}
+
+// Snapshots of a database, oldest first; their names sort by the time they were taken
+export async function listSnapshots(appDir: string, database: string): Promise<string[]> {
+  const dir = path.join(appDir, snapshotDir);
+  if (!existsSync(dir)) return [];
+  const prefix = snapshotPrefix(database);
+  return (await readdir(dir))
+    .filter(name => name.startsWith(prefix) && /^\d{8}-\d{9}\.db$/.test(name.substring(prefix.length)))
+    .sort()
+    .map(name => path.join(dir, name));
+}
+
+/**
+ * Copies a SQLite database to a timestamped file under .agentlang/snapshots
+ * with the online backup API, so that a connection may be open on it, and
+ * removes the oldest snapshots beyond `keep`. Returns the snapshot, or
+ * undefined when the database file does not exist yet.
+ */
+export async function snapshotDatabase(appDir: string, database: string, keep: number): Promise<string | undefined> {
+  if (!existsSync(database)) return undefined;
+  const dir = path.join(appDir, snapshotDir);
+  await mkdir(dir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').replace('.', '').replace('Z', '');
+  const snapshot = path.join(dir, `${snapshotPrefix(database)}${stamp}.db`);
+  const db = new Database(database, { readonly: true, fileMustExist: true });
+  try {
+    await db.backup(snapshot);
+  } finally {
+    db.close();
+  }
+  const snapshots = await listSnapshots(appDir, database);
+  for (const old of snapshots.slice(0, Math.max(0, snapshots.length - keep))) {
+    await rm(old, { force: true });
+  }
+  return snapshot;
+}
+
+// A snapshot given as a path, or as the name of a file under .agentlang/snapshots
+function resolveSnapshot(appDir: string, snapshot: string): string | undefined {
+  return [path.resolve(process.cwd(), snapshot), path.join(appDir, snapshotDir, snapshot)].find(f => existsSync(f));
+}
+
+/**
+ * Replaces a SQLite database with a snapshot. The database is snapshotted
+ * first, so that the restore can be undone; no snapshot is pruned then, which
+ * could be the one being restored. Nothing else may have the database open,
+ * as its write-ahead log is discarded.
+ */
+export async function restoreSnapshot(appDir: string, database: string, snapshot: string): Promise<RestoredSnapshot> {
+  const file = resolveSnapshot(appDir, snapshot);
+  if (!file) {
+    const available = (await listSnapshots(appDir, database)).map(f => path.basename(f));
+    throw new Error(
+      `Snapshot ${snapshot} does not exist${available.length > 0 ? `, available: ${available.join(', ')}` : ''}`,
+    );
+  }
+  const source = new Database(file, { readonly: true, fileMustExist: true });
+  try {
+    let check: unknown;
+    try {
+      check = source.pragma('quick_check', { simple: true });
+    } catch (error) {
+      check = error instanceof Error ? error.message : String(error);
+    }
+    if (check !== 'ok') {
+      throw new Error(`Snapshot ${snapshot} is not a valid SQLite database: ${String(check)}`);
+    }
+    const previous = await snapshotDatabase(appDir, database, Infinity);
+    for (const suffix of ['-wal', '-shm']) {
+      await rm(`${database}${suffix}`, { force: true });
+    }
+    await source.backup(database);
+    return { database, snapshot: file, previous };
+  } finally {
+    source.close();
+  }
+}
@@ -0,0 +1,77 @@
+import type { Config } from 'agentlang/out/runtime/state.js';
+import { ui } from '../ui/index.js';
+import { plural } from '../validation/report.js';
+import { openMigrationDatabase, pendingSchemaChanges, readMigrationHistory, type MigrationRecord } from './database.js';
+
+export interface MigrationStatus {
+  app?: string;
+  appVersion?: string;
+  store: string;
+  // Undefined when the database has no migration table yet
+  migrations?: MigrationRecord[];
+  pending: string[];
+  upToDate: boolean;
+}
+
+/**
+ * Compares the schema of the modules of an app with its database, and lists
+ * the migrations recorded in the database.
+ */
+export async function migrationStatus(
+  fileName: string,
+  config: Config,
+  options?: { quiet?: boolean },
+): Promise<MigrationStatus> {
+  const { appSpec, appVersion, dataSource } = await openMigrationDatabase(fileName, config, options);
+  const migrations = await readMigrationHistory();
+  const { ups } = await pendingSchemaChanges(dataSource);
+  return {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+    app: typeof appSpec.name === 'string' ? (appSpec.name as string) : undefined,
+    appVersion,
+    store: config.store?.type ?? 'sqlite',
+    migrations,
+    pending: ups,
+    upToDate: ups.length === 0,
+  };
+}
+
+function formatTime(date?: Date): string {
+  if (!date) return 'unknown time';
+  return `${date.toISOString().substring(0, 19).replace('T', ' ')} UTC`;
+}
+
+export function printMigrationStatus(status: MigrationStatus): void {
+  ui.header(`Migrations${status.app ? `: ${status.app}` : ''}`);
+  if (status.appVersion) ui.label('Version', status.appVersion);
+  ui.label('Store', status.store);
+
+  ui.blank();
+  if (!status.migrations) {
+    ui.dim('No migration table, the schema was never initialized or migrated');
+  } else if (status.migrations.length === 0) {
+    ui.dim('No migrations recorded');
+  } else {
+    ui.bold('Recorded migrations');
+    for (const migration of status.migrations) {
+      const current = migration.appVersion === status.appVersion ? ' (current version)' : '';
+      ui.row([
+        { text: `  ${migration.appVersion.padEnd(12)} `, color: 'cyan' },
+        { text: formatTime(migration.lastModified ?? migration.created) },
+        { text: `  ${plural(migration.ups.length, 'statement')}${current}`, dimColor: true },
+      ]);
+    }
+  }
+
+  ui.blank();
+  if (status.upToDate) {
+    ui.success('Database schema is up to date');
+    return;
+  }
+  ui.bold('Pending changes');
+  status.pending.forEach(query => ui.plain(`  ${query};`));
+  ui.blank();
+  ui.error(
+    `Database schema is out of date: ${plural(status.pending.length, 'pending statement')}, run 'agent runMigrations' to review them`,
+  );
+}
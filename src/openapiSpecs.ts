@@ -0,0 +1,183 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import yaml from 'yaml';
+import { OpenAPIClientAxios, type Document } from 'openapi-client-axios';
+import { ui } from './ui/index.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modOpenApi: typeof import('agentlang/out/runtime/openapi.js') = await import(`${agPath}/out/runtime/openapi.js`);
+const { registerOpenApiModule } = modOpenApi;
+const modLogger: typeof import('agentlang/out/runtime/logger.js') = await import(`${agPath}/out/runtime/logger.js`);
+// The runtime declares its logger as any
+const logger = modLogger.logger as { info(message: string): void };
+
+export interface OpenApiConfigItem {
+  name: string;
+  // http(s) URL of the spec, or a file: URL for a spec given with specPath
+  specUrl: string;
+  baseUrl?: string;
+}
+
+export interface OpenApiLoadOptions {
+  // Directory of the app, under which fetched specs are cached
+  appDir: string;
+  // Use the cached specs instead of fetching them
+  offline?: boolean;
+}
+
+export class OpenApiSpecError extends Error {
+  constructor(
+    message: string,
+    public readonly details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'OpenApiSpecError';
+  }
+}
+
+// Fetched specs are cached per module, relative to the app directory
+export const openApiCacheDir = path.join('.agentlang', 'openapi');
+
+const fetchTimeoutMs = 15_000;
+
+function cacheFile(appDir: string, name: string): string {
+  return path.join(appDir, openApiCacheDir, `${name.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+// Problems that would keep the client from being created, reported together
+function checkSpec(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['The document is not an object'];
+  }
+  const spec = value as Record<string, unknown>;
+  if (typeof spec.swagger === 'string') {
+    return [`Swagger ${spec.swagger} documents are not supported, convert the spec to OpenAPI 3`];
+  }
+  const problems: string[] = [];
+  if (typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.')) {
+    problems.push('Missing "openapi" version, expected 3.x');
+  }
+  if (typeof spec.paths !== 'object' || spec.paths === null) {
+    problems.push('Missing "paths" object');
+  }
+  return problems;
+}
+
+// Specs are read as JSON or YAML, whatever the extension or content type
+function parseSpec(text: string, source: string): Document {
+  let value: unknown;
+  try {
+    value = yaml.parse(text);
+  } catch (error) {
+    throw new OpenApiSpecError(`Cannot parse the spec from ${source}`, [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+  const problems = checkSpec(value);
+  if (problems.length > 0) {
+    throw new OpenApiSpecError(`Invalid spec from ${source}`, problems);
+  }
+  return value as Document;
+}
+
+async function readCachedSpec(file: string): Promise<Document> {
+  return parseSpec(await readFile(file, 'utf-8'), path.relative(process.cwd(), file));
+}
+
+async function fetchSpec(specUrl: string): Promise<string> {
+  const response = await fetch(specUrl, { signal: AbortSignal.timeout(fetchTimeoutMs) });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Reads the spec of a module: from its file for a local spec, from the cache
+ * when offline, and otherwise from its URL, refreshing the cache. When the
+ * URL cannot be fetched, the cached spec is used if there is one.
+ */
+async function readSpec(cfg: OpenApiConfigItem, options: OpenApiLoadOptions): Promise<Document> {
+  if (cfg.specUrl.startsWith('file:')) {
+    const file = fileURLToPath(cfg.specUrl);
+    if (!existsSync(file)) {
+      throw new OpenApiSpecError(`Spec file ${path.relative(process.cwd(), file)} does not exist`);
+    }
+    return parseSpec(await readFile(file, 'utf-8'), path.relative(process.cwd(), file));
+  }
+
+  const cached = cacheFile(options.appDir, cfg.name);
+  if (options.offline) {
+    if (!existsSync(cached)) {
+      throw new OpenApiSpecError(`No cached spec, run once without --offline to cache ${cfg.specUrl}`);
+    }
+    return readCachedSpec(cached);
+  }
+
+  let text: string;
+  try {
+    text = await fetchSpec(cfg.specUrl);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    if (!existsSync(cached)) {
+      throw new OpenApiSpecError(`Cannot fetch ${cfg.specUrl}`, [reason]);
+    }
+    ui.warn(`Cannot fetch ${cfg.specUrl} (${reason}), using the cached spec of ${cfg.name}`);
+    return readCachedSpec(cached);
+  }
+  const spec = parseSpec(text, cfg.specUrl);
+  await mkdir(path.dirname(cached), { recursive: true });
+  await writeFile(cached, `${JSON.stringify(spec, null, 2)}\n`, 'utf-8');
+  return spec;
+}
+
+/**
+ * URL the requests of a module are sent to: the configured baseUrl, else the
+ * directory of the spec URL, as for remote specs before local ones existed.
+ * A local spec has no such directory and uses its first absolute server URL.
+ */
+function baseUrlOf(cfg: OpenApiConfigItem, spec: Document): string {
+  if (cfg.baseUrl) return cfg.baseUrl;
+  if (!cfg.specUrl.startsWith('file:')) {
+    return cfg.specUrl.substring(0, cfg.specUrl.lastIndexOf('/'));
+  }
+  const server = spec.servers?.[0]?.url;
+  if (server && /^https?:\/\//.test(server)) return server;
+  throw new OpenApiSpecError('No baseUrl is configured and the spec has no absolute server URL');
+}
+
+/**
+ * Registers the OpenAPI modules of the configuration. A module whose spec
+ * cannot be read or is invalid is reported and skipped, so that the app
+ * still starts with the others.
+ */
+export async function loadOpenApiModules(
+  openApiConfig: OpenApiConfigItem[],
+  options: OpenApiLoadOptions,
+): Promise<void> {
+  for (const cfg of openApiConfig) {
+    try {
+      const api = new OpenAPIClientAxios({ definition: await readSpec(cfg, options) });
+      await api.init();
+      const client = await api.getClient();
+      client.defaults.baseURL = baseUrlOf(cfg, api.document);
+      const n = await registerOpenApiModule(cfg.name, { api, client });
+      logger.info(`OpenAPI module '${n}' registered`);
+    } catch (error) {
+      ui.error(
+        `OpenAPI module ${cfg.name} was not registered: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      if (error instanceof OpenApiSpecError) {
+        error.details.forEach(detail => ui.dim(`  ${detail}`));
+      }
+    }
+  }
+}
@@ -3,6 +3,22 @@ import * as path from 'node:path';
 import * as chokidar from 'chokidar';
 import { existsSync } from 'node:fs';
 import { ui, ansi } from './ui/index.js';
+import { resolveAppConfig } from './config/appConfig.js';
+import { plainSecretWarnings } from './config/secrets.js';
+import {
+  attachReverseSearch,
+  defaultHistorySize,
+  endBlock,
+  expandHistoryReference,
+  historyBeforeBlock,
+  historyFile,
+  historyOf,
+  isHistoryReference,
+  loadHistory,
+  replaceLatestEntry,
+  saveHistory,
+} from './replHistory.js';
+import { isIncomplete } from './replInput.js';
 import type { ApplicationSpec } from 'agentlang/out/runtime/loader.js';
 import type { Config } from 'agentlang/out/runtime/state.js';
 
@@ -14,7 +30,7 @@ if (existsSync(nodeModulesPath)) {
 }
 
 const modLoader: typeof import('agentlang/out/runtime/loader.js') = await import(`${agPath}/out/runtime/loader.js`);
-const { load, loadRawConfig, parseAndIntern, addFromDef, addRelationshipFromDef, addWorkflowFromDef } = modLoader;
+const { load, parseAndIntern, addFromDef, addRelationshipFromDef, addWorkflowFromDef } = modLoader;
 const modModule: typeof import('agentlang/out/runtime/module.js') = await import(`${agPath}/out/runtime/module.js`);
 const {
   addModule,
@@ -45,8 +61,6 @@ const modAst: typeof import('agentlang/out/language/generated/ast.js') = await i
 );
 const { isEntityDefinition, isEventDefinition, isRecordDefinition, isRelationshipDefinition, isWorkflowDefinition } =
   modAst;
-const modState: typeof import('agentlang/out/runtime/state.js') = await import(`${agPath}/out/runtime/state.js`);
-const { setAppConfig } = modState;
 const modCli: typeof import('agentlang/out/cli/main.js') = await import(`${agPath}/out/cli/main.js`);
 const { runPreInitTasks, runPostInitTasks } = modCli;
 const modInterpreter: typeof import('agentlang/out/runtime/interpreter.js') = await import(
@@ -59,6 +73,9 @@ export interface ReplOptions {
   quiet?: boolean;
   verbose?: boolean;
   debounceMs?: number;
+  profile?: string;
+  // Entries kept in .agentlang/repl_history, 0 to keep none
+  historySize?: number;
 }
 
 interface ReplState {
@@ -70,11 +87,45 @@ interface ReplState {
   isInitializing: boolean;
   appSpec?: ApplicationSpec;
   config?: Config;
+  // Lines of a block that is still open, read with the continuation prompt
+  pending: string[];
+  // History from before the block, to which the block is added as one entry
+  historyBeforeBlock: string[];
 }
 
 // Global REPL state
 let replState: ReplState | null = null;
 
+const mainPrompt = ansi.cyan('agentlang> ');
+const continuationPrompt = ansi.cyan('...> ');
+
+// Definitions given as AgentLang source rather than through the helpers
+const definitionPattern = /^(entity|record|event|relationship|workflow)\s/;
+
+function cancelPending(): void {
+  if (!replState) return;
+  replState.pending = [];
+  replState.rl.setPrompt(mainPrompt);
+  endBlock(replState.rl, replState.historyBeforeBlock);
+  persistHistory();
+  ui.dim('Block cancelled');
+}
+
+let historyWarned = false;
+
+function persistHistory(): void {
+  if (!replState || replState.options.historySize === 0) return;
+  try {
+    saveHistory(replState.appDir, historyOf(replState.rl));
+  } catch (error) {
+    // Warn once, the REPL is still usable without the file
+    if (!historyWarned) {
+      ui.warn(`Cannot save REPL history to ${historyFile}: ${error instanceof Error ? error.message : String(error)}`);
+      historyWarned = true;
+    }
+  }
+}
+
 // Core AgentLang processing function
 async function processAgentlang(code: string): Promise<string> {
   let currentModule = getActiveModuleName();
@@ -350,6 +401,10 @@ function createReplHelpers() {
       console.log('  exit, quit       // Exit REPL');
       console.log('  clear            // Clear screen');
       console.log('  restart          // Restart REPL');
+      console.log('  history [n]      // List the last n entries of the history (default 20)');
+      console.log('  history clear    // Clear the history');
+      console.log('  !!, !<n>         // Run the previous entry, or entry n of the history');
+      console.log('  .break, Ctrl+C   // Cancel a block that is still open');
 
       ui.blank();
       ui.row([{ text: 'Entity Creation:', color: 'cyan', bold: true }]);
@@ -460,11 +515,15 @@ function createReplHelpers() {
       console.log('  utils.clear()        // Clear screen');
       console.log('  utils.restart()      // Restart REPL');
       console.log('  utils.exit()         // Exit REPL');
+      console.log('  utils.history(n)     // List the last n entries of the history');
 
       ui.blank();
       ui.row([{ text: 'Tips:', color: 'gray', bold: true }]);
       console.log('  • Use tab completion for commands');
+      console.log('  • Ctrl+R searches the history, which is kept in .agentlang/repl_history');
       console.log('  • Template literals support multi-line code');
+      console.log('  • Open brackets or template literals continue on the next line, at a ...> prompt');
+      console.log('  • Definitions such as entity User { ... } can be typed or pasted as AgentLang');
       console.log('  • All functions return promises - use await if needed');
       console.log('  • File watching auto-restarts on changes (if enabled)');
       console.log('  • Use inspect.* commands to explore your application');
@@ -488,6 +547,26 @@ function createReplHelpers() {
       await restartRepl();
       return '';
     },
+    history: (count = 20) => {
+      const entries = replState ? [...historyOf(replState.rl)].reverse() : [];
+      const width = String(entries.length).length;
+      entries.forEach((entry, i) => {
+        if (i >= entries.length - count) {
+          // Lines of a block are aligned under its first
+          const text = entry.replace(/\n/g, `\n${' '.repeat(width + 4)}`);
+          ui.row([{ text: `  ${String(i + 1).padStart(width)}  `, dimColor: true }, { text }]);
+        }
+      });
+      return '';
+    },
+    clearHistory: () => {
+      if (replState) {
+        historyOf(replState.rl).length = 0;
+        persistHistory();
+      }
+      ui.success('History cleared');
+      return '';
+    },
     exit: () => {
       ui.warn('Goodbye!');
       cleanup();
@@ -619,17 +698,12 @@ async function restartRepl(): Promise<void> {
 async function loadApplication(appDir: string): Promise<void> {
   if (!replState) return;
 
-  // Load configuration if available
-  try {
-    const configPath = path.join(appDir, 'app.config.json');
-    const rawConfig = (await loadRawConfig(configPath)) as Record<string, unknown>;
-    replState.config = setAppConfig(rawConfig as Parameters<typeof setAppConfig>[0]);
-    ui.info(`Loaded config from ${configPath}`);
-  } catch {
-    // Config is optional
-    if (!replState.options.quiet) {
-      ui.warn('No app.config.json found, using defaults');
-    }
+  // Load configuration the same way agent run does, defaults apply when the app has none
+  const { profile } = replState.options;
+  replState.config = await resolveAppConfig(appDir, { profile });
+  (await plainSecretWarnings(appDir, { profile })).forEach(warning => ui.warn(warning));
+  if (profile) {
+    ui.info(`Loaded config with profile ${profile}`);
   }
   // Load the application
   ui.info(`Loading application from: ${appDir}`);
@@ -685,6 +759,8 @@ export async function startRepl(appDir = '.', options: ReplOptions = {}): Promis
   // Setup signal handlers
   setupSignalHandlers();
 
+  const historySize = options.historySize ?? defaultHistorySize;
+
   // Initialize REPL state
   replState = {
     appDir: resolvedAppDir,
@@ -692,7 +768,10 @@ export async function startRepl(appDir = '.', options: ReplOptions = {}): Promis
     rl: readline.createInterface({
       input: process.stdin,
       output: process.stdout,
-      prompt: ansi.cyan('agentlang> '),
+      prompt: mainPrompt,
+      history: loadHistory(resolvedAppDir, historySize),
+      historySize,
+      removeHistoryDuplicates: true,
       completer: (line: string) => {
         const completions = [
           'help',
@@ -723,6 +802,8 @@ export async function startRepl(appDir = '.', options: ReplOptions = {}): Promis
           'utils.clear()',
           'utils.restart()',
           'utils.exit()',
+          'utils.history(',
+          'history',
           'addEntity(',
           'removeEntity(',
           'getEntity(',
@@ -752,7 +833,11 @@ export async function startRepl(appDir = '.', options: ReplOptions = {}): Promis
     }),
     isRestarting: false,
     isInitializing: true,
+    pending: [],
+    historyBeforeBlock: [],
   };
+  attachReverseSearch(replState.rl);
+  replState.rl.on('history', () => persistHistory());
 
   try {
     // Initialize AgentLang runtime
@@ -802,13 +887,52 @@ export async function startRepl(appDir = '.', options: ReplOptions = {}): Promis
 
     replState.rl.on('line', (input: string) => {
       void (async () => {
-        const trimmed = input.trim();
+        // Lines are gathered until brackets and template literals are closed
+        if (replState && replState.pending.length > 0 && input.trim() === '.break') {
+          cancelPending();
+          replState.rl.prompt();
+          return;
+        }
+        const code = replState ? [...replState.pending, input].join('\n') : input;
+        if (replState && isIncomplete(code)) {
+          if (replState.pending.length === 0) {
+            replState.historyBeforeBlock = historyBeforeBlock(replState.rl, input);
+          }
+          replState.pending.push(input);
+          replState.rl.setPrompt(continuationPrompt);
+          replState.rl.prompt();
+          return;
+        }
+        if (replState && replState.pending.length > 0) {
+          replState.pending = [];
+          replState.rl.setPrompt(mainPrompt);
+          endBlock(replState.rl, replState.historyBeforeBlock, code);
+          persistHistory();
+        }
+
+        let trimmed = code.trim();
 
         if (!trimmed) {
           replState?.rl.prompt();
           return;
         }
 
+        // Run an entry of the history again, recorded as itself rather than as the reference
+        if (replState && isHistoryReference(trimmed)) {
+          const entry = expandHistoryReference(replState.rl, trimmed);
+          if (entry === undefined) {
+            historyOf(replState.rl).shift();
+            persistHistory();
+            ui.error(`No history entry ${trimmed}`);
+            replState.rl.prompt();
+            return;
+          }
+          replaceLatestEntry(replState.rl, entry);
+          persistHistory();
+          ui.dim(entry);
+          trimmed = entry;
+        }
+
         try {
           // Handle special commands without parentheses
           if (trimmed === 'help' || trimmed === '?') {
@@ -828,12 +952,29 @@ export async function startRepl(appDir = '.', options: ReplOptions = {}): Promis
             return;
           }
 
+          const historyCommand = /^history(?:\s+(\d+|clear))?$/.exec(trimmed);
+          if (historyCommand) {
+            if (historyCommand[1] === 'clear') {
+              helpers.utils.clearHistory();
+            } else {
+              helpers.utils.history(historyCommand[1] ? Number(historyCommand[1]) : undefined);
+            }
+            replState?.rl.prompt();
+            return;
+          }
+
           if (trimmed === 'restart') {
             await helpers.utils.restart();
             replState?.rl.prompt();
             return;
           }
 
+          if (definitionPattern.test(trimmed)) {
+            console.log(ui.format.success('→'), await processAgentlang(trimmed));
+            replState?.rl.prompt();
+            return;
+          }
+
           // Evaluate the input in the global context with helpers
           const result = (await eval(trimmed)) as unknown;
 
@@ -858,6 +999,19 @@ export async function startRepl(appDir = '.', options: ReplOptions = {}): Promis
       })();
     });
 
+    // Ctrl+C cancels an open block, and otherwise exits as readline does by default
+    replState.rl.on('SIGINT', () => {
+      if (replState && replState.pending.length > 0) {
+        console.log();
+        cancelPending();
+        // Drops what was typed on the line, which redraws the prompt
+        replState.rl.write(null, { ctrl: true, name: 'e' });
+        replState.rl.write(null, { ctrl: true, name: 'u' });
+      } else {
+        replState?.rl.close();
+      }
+    });
+
     replState.rl.on('close', () => {
       cleanup();
       process.exit(0);
@@ -0,0 +1,174 @@
+import * as path from 'node:path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import type * as readline from 'node:readline';
+import { ansi } from './ui/index.js';
+
+// History is kept per app, relative to its directory
+export const historyFile = path.join('.agentlang', 'repl_history');
+
+export const defaultHistorySize = 1000;
+
+// Parts of readline's terminal handling that the REPL extends, which its typings leave out
+interface TerminalInterface extends readline.Interface {
+  history: string[];
+  historySize: number;
+  line: string;
+  cursor: number;
+  _ttyWrite(data: string | undefined, key: readline.Key | undefined): void;
+  _refreshLine(): void;
+}
+
+/**
+ * Entries of the history file of an app, newest first as readline keeps
+ * them. The file has an entry per line, oldest first, like a shell history;
+ * the lines of a multi-line entry are separated by carriage returns, which
+ * readline never leaves in a line.
+ */
+export function loadHistory(appDir: string, size: number): string[] {
+  const file = path.join(appDir, historyFile);
+  if (size === 0 || !existsSync(file)) return [];
+  return readFileSync(file, 'utf-8')
+    .split('\n')
+    .filter(entry => entry.trim() !== '')
+    .map(entry => entry.replace(/\r/g, '\n'))
+    .reverse()
+    .slice(0, size);
+}
+
+export function saveHistory(appDir: string, history: string[]): void {
+  const file = path.join(appDir, historyFile);
+  mkdirSync(path.dirname(file), { recursive: true });
+  const entries = [...history].reverse().map(entry => entry.replace(/\n/g, '\r'));
+  writeFileSync(file, entries.length > 0 ? `${entries.join('\n')}\n` : '');
+}
+
+export function historyOf(rl: readline.Interface): string[] {
+  return (rl as TerminalInterface).history;
+}
+
+// Records the entry a reference expanded to in place of the reference, as the latest entry
+export function replaceLatestEntry(rl: readline.Interface, entry: string): void {
+  const history = historyOf(rl);
+  if (history.length === 0) return;
+  history[0] = entry;
+  const duplicate = history.indexOf(entry, 1);
+  if (duplicate > 0) history.splice(duplicate, 1);
+}
+
+/**
+ * The history as it was before the first line of a block, which readline has
+ * already added, to be restored when the block ends.
+ */
+export function historyBeforeBlock(rl: readline.Interface, firstLine: string): string[] {
+  const history = historyOf(rl);
+  return history[0] === firstLine ? history.slice(1) : [...history];
+}
+
+/**
+ * Restores the history from before a block, dropping the entries readline
+ * added for each of its lines, and records the whole block as one entry
+ * unless it was cancelled.
+ */
+export function endBlock(rl: readline.Interface, before: string[], block?: string): void {
+  const terminal = rl as TerminalInterface;
+  if (terminal.historySize === 0) return;
+  const entries = block === undefined ? before : [block, ...before.filter(entry => entry !== block)];
+  terminal.history.splice(0, terminal.history.length, ...entries.slice(0, terminal.historySize));
+}
+
+// `!!` for the previous entry, `!<n>` for an entry as `history` numbers it
+const historyReference = /^!(!|\d+)$/;
+
+export function isHistoryReference(input: string): boolean {
+  return historyReference.test(input);
+}
+
+/**
+ * The entry a history reference stands for, numbered oldest first, not
+ * counting the reference itself, which readline has already added. Undefined
+ * when there is no such entry.
+ */
+export function expandHistoryReference(rl: readline.Interface, input: string): string | undefined {
+  const match = historyReference.exec(input);
+  if (!match) return undefined;
+  const previous = historyOf(rl).slice(1).reverse();
+  return match[1] === '!' ? previous[previous.length - 1] : previous[Number(match[1]) - 1];
+}
+
+/**
+ * Ctrl+R searches the history backwards for entries containing what is typed,
+ * as in a shell: Ctrl+R again finds an older match, Enter runs the match,
+ * other editing keys keep it on the line, and Ctrl+G or Escape go back to the
+ * line as it was.
+ */
+export function attachReverseSearch(rl: readline.Interface): void {
+  const terminal = rl as TerminalInterface;
+  const ttyWrite = terminal._ttyWrite.bind(terminal);
+  let search: { query: string; index: number; failed: boolean; prompt: string; line: string } | undefined;
+
+  const setLine = (line: string, cursor = line.length) => {
+    terminal.line = line;
+    terminal.cursor = cursor;
+    terminal._refreshLine();
+  };
+
+  const render = () => {
+    if (!search) return;
+    const status = search.failed ? 'failed reverse-i-search' : 'reverse-i-search';
+    terminal.setPrompt(ansi.dim(`(${status})\`${search.query}': `));
+    const match = search.index >= 0 ? terminal.history[search.index] : '';
+    setLine(match, Math.max(match.indexOf(search.query), 0));
+  };
+
+  // Finds the newest entry containing the query, from an index on
+  const find = (from: number) => {
+    if (!search) return;
+    const { query } = search;
+    const index = terminal.history.findIndex((entry, i) => i >= from && entry.includes(query));
+    search.failed = index < 0;
+    if (index >= 0) search.index = index;
+    render();
+  };
+
+  const leave = (line: string) => {
+    if (!search) return;
+    terminal.setPrompt(search.prompt);
+    search = undefined;
+    setLine(line);
+  };
+
+  terminal._ttyWrite = (data, key) => {
+    if (key?.ctrl && key.name === 'r') {
+      if (search) {
+        find(search.index + 1);
+      } else {
+        search = { query: '', index: -1, failed: false, prompt: terminal.getPrompt(), line: terminal.line };
+        render();
+      }
+      return;
+    }
+    if (!search) {
+      ttyWrite(data, key);
+      return;
+    }
+    if ((key?.ctrl && key.name === 'g') || key?.name === 'escape') {
+      leave(search.line);
+    } else if (key?.name === 'backspace') {
+      search.query = search.query.slice(0, -1);
+      find(0);
+    } else if (
+      data &&
+      !key?.ctrl &&
+      !key?.meta &&
+      key?.name !== 'return' &&
+      key?.name !== 'enter' &&
+      data.charCodeAt(0) >= 32
+    ) {
+      search.query += data;
+      find(Math.max(search.index, 0));
+    } else {
+      leave(search.index >= 0 ? terminal.history[search.index] : search.line);
+      ttyWrite(data, key);
+    }
+  };
+}
@@ -0,0 +1,112 @@
+const closing: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// Index just past the end of the string opened by the quote at start, or -1 when the line ends first
+function skipString(code: string, start: number): number {
+  const quote = code[start];
+  for (let i = start + 1; i < code.length; i++) {
+    if (code[i] === '\\') i++;
+    else if (code[i] === quote) return i + 1;
+    else if (code[i] === '\n') return -1;
+  }
+  return -1;
+}
+
+// Index just past the end of the regular expression opened by the slash at start, or -1 when the line ends first
+function skipRegex(code: string, start: number): number {
+  let inClass = false;
+  for (let i = start + 1; i < code.length; i++) {
+    const c = code[i];
+    if (c === '\\') i++;
+    else if (c === '\n') return -1;
+    else if (c === '[') inClass = true;
+    else if (c === ']') inClass = false;
+    else if (c === '/' && !inClass) return i + 1;
+  }
+  return -1;
+}
+
+// Keywords after which a slash starts a regular expression rather than a division
+const regexKeywords = new Set([
+  'return',
+  'typeof',
+  'instanceof',
+  'in',
+  'of',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'case',
+  'do',
+  'else',
+  'yield',
+  'await',
+]);
+
+// Whether a slash after the code before it starts a regular expression, as after an operator or at the start
+function startsRegex(before: string): boolean {
+  const code = before.trimEnd();
+  if (code === '') return true;
+  const last = code[code.length - 1];
+  if (/[\w$]/.test(last)) return regexKeywords.has(/[\w$]+$/.exec(code)?.[0] ?? '');
+  return !/[)\]"'`.]/.test(last);
+}
+
+/**
+ * Whether input to the REPL is cut short, with a bracket, template literal or
+ * comment still open, so that more lines should be read before it is
+ * evaluated. Strings and regular expressions end with their line, and a
+ * closing bracket that matches nothing counts as complete, for eval to report.
+ */
+export function isIncomplete(code: string): boolean {
+  // Brackets and template literals left open, innermost last; '${' is a substitution in a template
+  const open: string[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const c = code[i];
+    if (open[open.length - 1] === '`') {
+      if (c === '\\') {
+        i++;
+      } else if (c === '`') {
+        open.pop();
+      } else if (c === '$' && code[i + 1] === '{') {
+        open.push('${');
+        i++;
+      }
+      i++;
+      continue;
+    }
+    if (c === '/' && code[i + 1] === '/') {
+      const end = code.indexOf('\n', i);
+      i = end < 0 ? code.length : end;
+      continue;
+    }
+    if (c === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      if (end < 0) return true;
+      i = end + 2;
+      continue;
+    }
+    if (c === '/' && startsRegex(code.slice(0, i))) {
+      const end = skipRegex(code, i);
+      if (end < 0) return false;
+      i = end;
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      const end = skipString(code, i);
+      if (end < 0) return false;
+      i = end;
+      continue;
+    }
+    if (c === '`' || c === '(' || c === '[' || c === '{') {
+      open.push(c);
+    } else if (c in closing) {
+      const top = open[open.length - 1];
+      if (top !== closing[c] && !(c === '}' && top === '${')) return false;
+      open.pop();
+    }
+    i++;
+  }
+  return open.length > 0;
+}
@@ -0,0 +1,153 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import type { ApplicationSpec } from 'agentlang/out/runtime/loader.js';
+import type { Config } from 'agentlang/out/runtime/state.js';
+import type { Module } from 'agentlang/out/runtime/module.js';
+import { ui } from './ui/index.js';
+import { plural } from './validation/report.js';
+import { withLoaderOutputOnStderr } from './utils/loaderOutput.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modLoader: typeof import('agentlang/out/runtime/loader.js') = await import(`${agPath}/out/runtime/loader.js`);
+const { load } = modLoader;
+const modRuntimeModule: typeof import('agentlang/out/runtime/module.js') = await import(
+  `${agPath}/out/runtime/module.js`
+);
+const { fetchModule, getUserModuleNames, untangleWorkflowName, Workflow } = modRuntimeModule;
+const modUtil: typeof import('agentlang/out/runtime/util.js') = await import(`${agPath}/out/runtime/util.js`);
+const { ScratchModuleName } = modUtil;
+
+export interface RelationshipSummary {
+  name: string;
+  type: 'contains' | 'between';
+  nodes: [string, string];
+}
+
+export interface ModuleSummary {
+  name: string;
+  entities: string[];
+  records: string[];
+  events: string[];
+  relationships: RelationshipSummary[];
+  workflows: string[];
+  agents: string[];
+}
+
+export interface RunSummary {
+  app?: string;
+  modules: ModuleSummary[];
+  integrations?: { host: string; connections: string[] };
+  openapi: { name: string; specUrl: string; baseUrl?: string }[];
+}
+
+function summarizeModule(module: Module): ModuleSummary {
+  return {
+    name: module.name,
+    entities: module.getEntityEntries().map(e => e.name),
+    records: module.getRecordEntries().map(e => e.name),
+    // Events generated for @before/@after workflows are listed with the workflows
+    events: module
+      .getEventEntries()
+      .filter(e => !module.isPrePostEvent(e.name))
+      .map(e => e.name),
+    relationships: module.getRelationshipEntries().map(rel => ({
+      name: rel.name,
+      type: rel.isContains() ? 'contains' : 'between',
+      nodes: [rel.node1.path.asFqName(), rel.node2.path.asFqName()],
+    })),
+    workflows: module.entries
+      .filter(entry => entry instanceof Workflow)
+      .map(wf => {
+        const name = wf.name.replace(/--workflow$/, '');
+        return wf.isPrePost ? untangleWorkflowName(name) : name;
+      }),
+    agents: module.getAgentNames(),
+  };
+}
+
+/**
+ * Loads the app the way `agent run` does, but without starting the HTTP
+ * service or connecting to the database, and describes what was loaded.
+ * Integrations and OpenAPI modules are taken from the configuration only;
+ * nothing is fetched from them. With `quiet`, the progress lines the loader
+ * prints go to stderr so that stdout only carries the summary.
+ */
+export async function summarizeApp(
+  fileName: string,
+  config: Config,
+  options?: { quiet?: boolean },
+): Promise<RunSummary> {
+  let app: string | undefined;
+  let modules: ModuleSummary[] = [];
+
+  const loadApp = () =>
+    load(fileName, undefined, (appSpec?: ApplicationSpec) => {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      app = typeof appSpec?.name === 'string' ? (appSpec.name as string) : undefined;
+      modules = getUserModuleNames()
+        .filter(name => name !== ScratchModuleName)
+        .map(name => summarizeModule(fetchModule(name)));
+    });
+  await (options?.quiet ? withLoaderOutputOnStderr(loadApp) : loadApp());
+
+  return {
+    app,
+    modules,
+    integrations: config.integrations && {
+      host: config.integrations.host,
+      connections: Object.keys(config.integrations.connections ?? {}),
+    },
+    openapi: (config.openapi ?? []).map(cfg => ({ name: cfg.name, specUrl: cfg.specUrl, baseUrl: cfg.baseUrl })),
+  };
+}
+
+function printList(label: string, items: string[]): void {
+  if (items.length > 0) ui.label(label, items.join(', '));
+}
+
+export function printRunSummary(summary: RunSummary): void {
+  ui.header(`Dry run${summary.app ? `: ${summary.app}` : ''}`);
+  for (const module of summary.modules) {
+    ui.blank();
+    ui.cyan(module.name);
+    printList('Entities', module.entities);
+    printList('Records', module.records);
+    printList('Events', module.events);
+    printList(
+      'Relations',
+      module.relationships.map(rel => `${rel.name} ${rel.type} (${rel.nodes.join(', ')})`),
+    );
+    printList('Workflows', module.workflows);
+    printList('Agents', module.agents);
+  }
+
+  if (summary.integrations || summary.openapi.length > 0) {
+    ui.blank();
+  }
+  if (summary.integrations) {
+    const { host, connections } = summary.integrations;
+    ui.label('Integration', connections.length > 0 ? `${host} (${connections.join(', ')})` : host);
+  }
+  summary.openapi.forEach(api => ui.label('OpenAPI', `${api.name} (${api.specUrl})`));
+
+  const count = (f: (m: ModuleSummary) => unknown[], one: string, many: string) => {
+    const n = summary.modules.reduce((total, m) => total + f(m).length, 0);
+    return `${n} ${n === 1 ? one : many}`;
+  };
+  const counts = [
+    count(m => m.entities, 'entity', 'entities'),
+    count(m => m.events, 'event', 'events'),
+    count(m => m.relationships, 'relationship', 'relationships'),
+    count(m => m.workflows, 'workflow', 'workflows'),
+    count(m => m.agents, 'agent', 'agents'),
+  ];
+  ui.blank();
+  ui.success(`Loaded ${plural(summary.modules.length, 'module')}: ${counts.join(', ')}`);
+  ui.dim('No ports were bound and no database was opened');
+}
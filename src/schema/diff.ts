@@ -0,0 +1,234 @@
+import type {
+  AttributeModel,
+  ModuleModel,
+  RelationshipModel,
+  SchemaModel,
+  WorkflowModel,
+} from '../validation/model.js';
+
+export type SchemaChangeKind = 'added' | 'removed' | 'changed';
+
+export type DefinitionKind = 'entity' | 'record' | 'event' | 'relationship' | 'workflow';
+
+export interface DefinitionChange {
+  kind: DefinitionKind;
+  name: string;
+  change: SchemaChangeKind;
+  // What changed in the definition, or what an added definition holds
+  details: string[];
+}
+
+export interface ModuleChanges {
+  module: string;
+  change: SchemaChangeKind;
+  definitions: DefinitionChange[];
+}
+
+// Strings are quoted, so that "5" and 5 read differently
+function formatPropertyValue(value: unknown): string {
+  return (typeof value === 'object' && value !== null) || typeof value === 'string'
+    ? JSON.stringify(value)
+    : String(value);
+}
+
+// Type, enum, ref and the like, then @properties, each described as its source would read
+function attributeFacets(attr: AttributeModel): Map<string, string> {
+  const facets = new Map<string, string>();
+  if (attr.type) facets.set('type', `${attr.type}${attr.array ? '[]' : ''}`);
+  if (attr.enum) facets.set('@enum', attr.enum.map(v => JSON.stringify(v)).join(', '));
+  if (attr.oneOf) facets.set('@oneof', attr.oneOf);
+  if (attr.ref) facets.set('@ref', attr.ref);
+  if (attr.expr) facets.set('expression', attr.expr);
+  for (const [name, value] of Object.entries(attr.properties)) {
+    facets.set(`@${name}`, value === true ? '' : formatPropertyValue(value));
+  }
+  return facets;
+}
+
+export function describeAttribute(attr: AttributeModel): string {
+  return [...attributeFacets(attr)]
+    .map(([facet, value]) => {
+      if (facet === 'type') return value;
+      if (facet === 'expression') return `= ${value}`;
+      return value === '' ? facet : `${facet}(${value})`;
+    })
+    .join(' ');
+}
+
+function attributeChanges(before: AttributeModel[], after: AttributeModel[]): string[] {
+  const details: string[] = [];
+  const old = new Map(before.map(a => [a.name, a]));
+  const current = new Map(after.map(a => [a.name, a]));
+  for (const attr of after) {
+    const previous = old.get(attr.name);
+    if (!previous) {
+      details.push(`Added attribute \`${attr.name}\` ${describeAttribute(attr)}`.trimEnd());
+      continue;
+    }
+    const was = attributeFacets(previous);
+    const is = attributeFacets(attr);
+    for (const [facet, value] of is) {
+      const oldValue = was.get(facet);
+      if (oldValue === undefined) {
+        details.push(`Added ${facet}${value === '' ? '' : ` ${value}`} to \`${attr.name}\``);
+      } else if (oldValue !== value) {
+        details.push(`Changed ${facet} of \`${attr.name}\` from ${oldValue} to ${value}`);
+      }
+    }
+    for (const [facet, value] of was) {
+      if (!is.has(facet)) {
+        details.push(`Removed ${facet}${value === '' ? '' : ` ${value}`} from \`${attr.name}\``);
+      }
+    }
+  }
+  for (const attr of before) {
+    if (!current.has(attr.name)) details.push(`Removed attribute \`${attr.name}\``);
+  }
+  return details;
+}
+
+// Differences between two lists of source lines, as the lines removed and added
+function listChanges(what: string, before: string[], after: string[]): string[] {
+  const removed = before.filter(line => !after.includes(line));
+  const added = after.filter(line => !before.includes(line));
+  if (removed.length === 0 && added.length === 0) {
+    return before.join('\n') === after.join('\n') ? [] : [`Reordered ${what}s`];
+  }
+  return [...removed.map(line => `Removed ${what} \`${line}\``), ...added.map(line => `Added ${what} \`${line}\``)];
+}
+
+function valueChange(what: string, before: string | undefined, after: string | undefined): string[] {
+  if (before === after) return [];
+  if (before === undefined) return [`Added ${what} ${after}`];
+  if (after === undefined) return [`Removed ${what} ${before}`];
+  return [`Changed ${what} from ${before} to ${after}`];
+}
+
+function propertyChanges(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return names.flatMap(name =>
+    valueChange(
+      `@${name}`,
+      name in before ? formatPropertyValue(before[name]) : undefined,
+      name in after ? formatPropertyValue(after[name]) : undefined,
+    ),
+  );
+}
+
+function schemaChanges(before: SchemaModel, after: SchemaModel): string[] {
+  return [
+    ...valueChange('extends', before.extends, after.extends),
+    ...valueChange('visibility', before.public ? '@public' : 'private', after.public ? '@public' : 'private'),
+    ...attributeChanges(before.attributes, after.attributes),
+    ...listChanges('annotation', before.annotations, after.annotations),
+  ];
+}
+
+function nodesOf(rel: RelationshipModel): string {
+  return `${rel.type}(${rel.nodes.map(n => (n.alias ? `${n.name} @as ${n.alias}` : n.name)).join(', ')})`;
+}
+
+function relationshipChanges(before: RelationshipModel, after: RelationshipModel): string[] {
+  return [
+    ...valueChange('nodes', nodesOf(before), nodesOf(after)),
+    ...propertyChanges(before.properties, after.properties),
+    ...attributeChanges(before.attributes, after.attributes),
+  ];
+}
+
+// Anonymous workflows are known by the event that triggers them
+function workflowName(workflow: WorkflowModel): string {
+  const trigger = workflow.trigger;
+  return workflow.name ?? (trigger ? `@${trigger.when} ${trigger.operation}:${trigger.entity}` : '(anonymous)');
+}
+
+function workflowChanges(before: WorkflowModel, after: WorkflowModel): string[] {
+  return [
+    ...valueChange('visibility', before.public ? '@public' : 'private', after.public ? '@public' : 'private'),
+    ...propertyChanges(before.directives, after.directives),
+    ...listChanges('statement', before.statements, after.statements),
+  ];
+}
+
+interface Definitions<T> {
+  kind: DefinitionKind;
+  of: (module: ModuleModel) => T[];
+  name: (def: T) => string;
+  // What an added definition holds
+  contents: (def: T) => string[];
+  changes: (before: T, after: T) => string[];
+}
+
+const schemaDefinitions = (kind: 'entity' | 'record' | 'event'): Definitions<SchemaModel> => ({
+  kind,
+  of: module => (kind === 'entity' ? module.entities : kind === 'record' ? module.records : module.events),
+  name: def => def.name,
+  contents: def => def.attributes.map(a => `\`${a.name}\` ${describeAttribute(a)}`.trimEnd()),
+  changes: schemaChanges,
+});
+
+const relationshipDefinitions: Definitions<RelationshipModel> = {
+  kind: 'relationship',
+  of: module => module.relationships,
+  name: def => def.name,
+  contents: def => [nodesOf(def)],
+  changes: relationshipChanges,
+};
+
+const workflowDefinitions: Definitions<WorkflowModel> = {
+  kind: 'workflow',
+  of: module => module.workflows,
+  name: workflowName,
+  contents: def => def.statements.map(s => `\`${s}\``),
+  changes: workflowChanges,
+};
+
+function kindChanges<T>(
+  defs: Definitions<T>,
+  before: ModuleModel | undefined,
+  after: ModuleModel | undefined,
+): DefinitionChange[] {
+  const changes: DefinitionChange[] = [];
+  const old = new Map((before ? defs.of(before) : []).map(d => [defs.name(d), d]));
+  const current = new Map((after ? defs.of(after) : []).map(d => [defs.name(d), d]));
+  for (const [name, def] of current) {
+    const previous = old.get(name);
+    if (previous === undefined) {
+      changes.push({ kind: defs.kind, name, change: 'added', details: defs.contents(def) });
+    } else {
+      const details = defs.changes(previous, def);
+      if (details.length > 0) changes.push({ kind: defs.kind, name, change: 'changed', details });
+    }
+  }
+  for (const name of old.keys()) {
+    if (!current.has(name)) changes.push({ kind: defs.kind, name, change: 'removed', details: [] });
+  }
+  return changes;
+}
+
+function definitionChanges(before: ModuleModel | undefined, after: ModuleModel | undefined): DefinitionChange[] {
+  return [
+    ...kindChanges(schemaDefinitions('entity'), before, after),
+    ...kindChanges(schemaDefinitions('record'), before, after),
+    ...kindChanges(schemaDefinitions('event'), before, after),
+    ...kindChanges(relationshipDefinitions, before, after),
+    ...kindChanges(workflowDefinitions, before, after),
+  ];
+}
+
+/**
+ * Compares the modules of an app at two points, by name: entities, records
+ * and events with their attributes, types, defaults and other properties,
+ * relationships and workflows. Modules without changes are left out.
+ */
+export function diffSchemas(before: ModuleModel[], after: ModuleModel[]): ModuleChanges[] {
+  const old = new Map(before.map(m => [m.name, m]));
+  const current = new Map(after.map(m => [m.name, m]));
+  const names = [...new Set([...current.keys(), ...old.keys()])];
+  return names
+    .map(name => {
+      const change: SchemaChangeKind = !old.has(name) ? 'added' : !current.has(name) ? 'removed' : 'changed';
+      return { module: name, change, definitions: definitionChanges(old.get(name), current.get(name)) };
+    })
+    .filter(m => m.change !== 'changed' || m.definitions.length > 0);
+}
@@ -0,0 +1,79 @@
+import { ui } from '../ui/index.js';
+import { plural } from '../validation/report.js';
+import type { ModuleChanges, SchemaChangeKind } from './diff.js';
+
+export const schemaDiffFormats = ['text', 'markdown', 'json'] as const;
+
+export type SchemaDiffFormat = (typeof schemaDiffFormats)[number];
+
+export function isSchemaDiffFormat(format: string): format is SchemaDiffFormat {
+  return (schemaDiffFormats as readonly string[]).includes(format);
+}
+
+// The two sides being compared, as they are named to the reader
+export interface DiffLabels {
+  from: string;
+  to: string;
+}
+
+const changeLabels: Record<SchemaChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+function summary(modules: ModuleChanges[]): string {
+  const definitions = modules.flatMap(m => m.definitions);
+  const counts = (['added', 'removed', 'changed'] as const)
+    .map(change => ({ change, count: definitions.filter(d => d.change === change).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ change, count }) => `${count} ${change}`);
+  return `${plural(definitions.length, 'definition')} in ${plural(modules.length, 'module')}: ${counts.join(', ')}`;
+}
+
+export function printSchemaDiff(modules: ModuleChanges[], labels: DiffLabels): void {
+  const colors: Record<SchemaChangeKind, string> = { added: 'green', removed: 'red', changed: 'yellow' };
+  ui.header(`Schema changes from ${labels.from} to ${labels.to}`);
+  if (modules.length === 0) {
+    ui.success('No changes to the data model');
+    return;
+  }
+  for (const module of modules) {
+    ui.blank();
+    ui.row([
+      { text: `  ${module.module}`, color: 'cyan', bold: true },
+      { text: module.change === 'changed' ? '' : ` (${module.change})`, dimColor: true },
+    ]);
+    for (const def of module.definitions) {
+      ui.row([
+        { text: `    ${changeLabels[def.change].padEnd(8)} `, color: colors[def.change] },
+        { text: `${def.kind} ` },
+        { text: def.name, bold: true },
+      ]);
+      def.details.forEach(detail => ui.dim(`             ${detail}`));
+    }
+  }
+  ui.blank();
+  ui.info(summary(modules));
+}
+
+/**
+ * The changes as Markdown, to be posted as a comment on a pull request: a
+ * section per module listing its changed definitions and what changed in them.
+ */
+export function schemaDiffMarkdown(modules: ModuleChanges[], labels: DiffLabels): string {
+  const lines = [`## Schema changes from \`${labels.from}\` to \`${labels.to}\``, ''];
+  if (modules.length === 0) {
+    lines.push('No changes to the data model.');
+    return `${lines.join('\n')}\n`;
+  }
+  lines.push(`${summary(modules)}.`);
+  for (const module of modules) {
+    lines.push('', `### \`${module.module}\`${module.change === 'changed' ? '' : ` (${module.change})`}`, '');
+    for (const def of module.definitions) {
+      lines.push(`- **${changeLabels[def.change]} ${def.kind}** \`${def.name}\``);
+      def.details.forEach(detail => lines.push(`  - ${detail}`));
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,67 @@
+import * as path from 'node:path';
+import { readFile } from 'node:fs/promises';
+import { URI } from 'langium';
+import { simpleGit } from 'simple-git';
+import type { ModuleDefinition } from 'agentlang/out/language/generated/ast.js';
+import { createValidationServices } from '../validation/diagnostics.js';
+import { buildModuleModel, type ModuleModel } from '../validation/model.js';
+import { findProjectFiles, isProjectFile } from '../validation/project.js';
+
+interface SourceFile {
+  // Relative to the app directory
+  file: string;
+  text: string;
+}
+
+async function workingTreeFiles(appDir: string): Promise<SourceFile[]> {
+  return Promise.all(
+    findProjectFiles(appDir).map(async file => ({
+      file: path.relative(path.resolve(process.cwd(), appDir), path.resolve(process.cwd(), file)),
+      text: await readFile(file, 'utf-8'),
+    })),
+  );
+}
+
+async function revisionFiles(appDir: string, ref: string): Promise<SourceFile[]> {
+  const git = simpleGit(path.resolve(process.cwd(), appDir));
+  if (!(await git.checkIsRepo())) {
+    throw new Error(`${appDir} is not in a git repository`);
+  }
+  // With --quiet an unknown revision prints nothing, rather than failing
+  const commit = await git.revparse(['--verify', '--quiet', `${ref}^{commit}`]).catch(() => '');
+  if (!commit.trim()) {
+    throw new Error(`Unknown git revision ${ref}`);
+  }
+  // Paths of the app directory in the repository, as ls-tree lists them with --full-name
+  const prefix = (await git.revparse(['--show-prefix'])).trim();
+  const listing = await git.raw(['ls-tree', '-r', '--name-only', '--full-name', ref, '--', '.']);
+  const files = listing
+    .split('\n')
+    .filter(name => name.startsWith(prefix))
+    .map(name => name.substring(prefix.length))
+    .filter(isProjectFile);
+  return Promise.all(files.map(async file => ({ file, text: await git.show([`${ref}:${prefix}${file}`]) })));
+}
+
+/**
+ * Models of the modules of an app at a git revision, or in the working tree
+ * when no revision is given. Files are only parsed, so a revision whose
+ * modules refer to each other in ways that no longer link is still read.
+ */
+export async function loadRevisionModules(appDir: string, ref?: string): Promise<ModuleModel[]> {
+  const sources = ref ? await revisionFiles(appDir, ref) : await workingTreeFiles(appDir);
+  const services = createValidationServices();
+  const appPath = path.resolve(process.cwd(), appDir);
+  return sources.map(({ file, text }) => {
+    const document = services.shared.workspace.LangiumDocumentFactory.fromString<ModuleDefinition>(
+      text,
+      URI.file(path.join(appPath, file)),
+    );
+    const { lexerErrors, parserErrors, value } = document.parseResult;
+    const error = lexerErrors[0]?.message ?? parserErrors[0]?.message;
+    if (error) {
+      throw new Error(`Cannot parse ${ref ? `${ref}:` : ''}${file}: ${error}`);
+    }
+    return buildModuleModel(value, file);
+  });
+}
@@ -8,8 +8,14 @@ import { getWorkspaceRoot, findLStudioPath } from './studio/utils.js';
 import { FileService } from './studio/services/FileService.js';
 import { StudioServer } from './studio/services/StudioServer.js';
 import { createRoutes } from './studio/routes.js';
-
-export async function startStudio(projectPath = '.', studioPort = 4000, serverOnly = false): Promise<void> {
+import type { StudioConfigOptions } from './studio/types.js';
+
+export async function startStudio(
+  projectPath = '.',
+  studioPort = 4000,
+  serverOnly = false,
+  configOptions: StudioConfigOptions = {},
+): Promise<void> {
   const inputDir = path.resolve(process.cwd(), projectPath);
 
   // Smart Parent Detection: Determine workspace root and initial app
@@ -35,7 +41,7 @@ export async function startStudio(projectPath = '.', studioPort = 4000, serverOn
 
   // Initialize Services with workspace root
   const fileService = new FileService(workspaceRoot);
-  const studioServer = new StudioServer(workspaceRoot, initialAppPath, fileService);
+  const studioServer = new StudioServer(workspaceRoot, initialAppPath, fileService, configOptions);
 
   if (initialAppPath) {
     spinner.text = ui.format.dim(`Launching ${path.basename(initialAppPath)}...`);
@@ -4,6 +4,8 @@ import { spawn, ChildProcess, execSync } from 'child_process';
 import { ui, ansi } from '../../ui/index.js';
 import { FileService } from './FileService.js';
 import { runPreInitTasks } from '../runtime.js';
+import type { StudioConfigOptions } from '../types.js';
+import { readEnvFiles } from '../../config/envFiles.js';
 import { fileURLToPath } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -13,7 +15,10 @@ export class AppRuntimeService {
   private agentProcess: ChildProcess | null = null;
   private currentAppPath: string | null = null;
 
-  constructor(private fileService: FileService) {}
+  constructor(
+    private fileService: FileService,
+    private configOptions: StudioConfigOptions = {},
+  ) {}
 
   async launchApp(appPath: string): Promise<void> {
     ui.dim(`  Starting ${path.basename(appPath)}...`);
@@ -91,11 +96,19 @@ export class AppRuntimeService {
       // We need: ../../../bin/cli.js
 
       const cliPath = path.join(__dirname, '..', '..', '..', 'bin', 'cli.js');
-      const spawnArgs = ['run', appPath];
+      const { set = [], profile } = this.configOptions;
+      const spawnArgs = [
+        'run',
+        appPath,
+        ...set.flatMap(value => ['--set', value]),
+        ...(profile ? ['--profile', profile] : []),
+      ];
       const spawnOptions = {
         stdio: 'pipe' as const,
         shell: false,
         cwd: appPath,
+        // Variables of the app's env files, for agent versions that do not load them; the environment wins
+        env: { ...readEnvFiles(appPath, profile).values, ...process.env },
       };
 
       if (existsSync(cliPath)) {
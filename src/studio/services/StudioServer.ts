@@ -3,7 +3,7 @@ import { AppManagementService } from './AppManagementService.js';
 import { AppRuntimeService } from './AppRuntimeService.js';
 import { GitHubService } from './GitHubService.js';
 import { WorkspaceService } from './WorkspaceService.js';
-import { AppInfo, WorkspaceInfo } from '../types.js';
+import { AppInfo, StudioConfigOptions, WorkspaceInfo } from '../types.js';
 import { ForkOptions } from '../../utils/forkApp.js';
 
 export class StudioServer {
@@ -12,9 +12,14 @@ export class StudioServer {
   private githubService: GitHubService;
   private workspaceService: WorkspaceService;
 
-  constructor(workspaceRoot: string, initialAppPath: string | null, fileService: FileService) {
+  constructor(
+    workspaceRoot: string,
+    initialAppPath: string | null,
+    fileService: FileService,
+    configOptions: StudioConfigOptions = {},
+  ) {
     this.appManagementService = new AppManagementService(workspaceRoot);
-    this.appRuntimeService = new AppRuntimeService(fileService);
+    this.appRuntimeService = new AppRuntimeService(fileService, configOptions);
     this.githubService = new GitHubService();
     this.workspaceService = new WorkspaceService(workspaceRoot, initialAppPath);
   }
@@ -10,3 +10,9 @@ export interface WorkspaceInfo {
   currentApp: string | null;
   apps: AppInfo[];
 }
+
+// Configuration flags passed on to every `agent run` started by Studio
+export interface StudioConfigOptions {
+  set?: string[];
+  profile?: string;
+}
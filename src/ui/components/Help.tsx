@@ -145,16 +145,35 @@ export default function Help({ version }: HelpProps) {
           <Command name="run" args="[file]" description="Load and execute an Agentlang module" />
           <SubOptions>
             <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="-w, --watch" desc="Reload changed modules without restarting" />
+            <Option flag="--offline" desc="Use cached OpenAPI specs" />
+            <Option flag="--dry-run" desc="Print what would be loaded, then exit" />
+            <Option flag="--json" desc="Dry run summary as JSON" />
           </SubOptions>
 
           <Command name="initSchema" args="[file]" description="Initialize database schema" />
           <SubOptions>
             <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="--seed" arg="[fixtures...]" desc="Seed the database afterwards" />
+          </SubOptions>
+
+          <Command name="seed" args="[fixtures...]" description="Seed the database from JSON or YAML fixtures" />
+          <SubOptions>
+            <Option flag="--app" arg="<path>" desc="Application directory or file" />
+            <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
           </SubOptions>
 
           <Command name="runMigrations" args="[file]" description="Run pending schema migrations" />
           <SubOptions>
             <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
           </SubOptions>
 
           <Command
@@ -164,22 +183,94 @@ export default function Help({ version }: HelpProps) {
           />
           <SubOptions>
             <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="--apply-file" arg="<file>" desc="Apply a reviewed SQL script" />
+            <Option flag="--allow-destructive" desc="Apply changes that may lose data without asking" />
+            <Option flag="--keep-snapshots" arg="<n>" desc="SQLite snapshots to keep, 0 to skip" />
           </SubOptions>
 
           <Command name="undoLastMigration" args="[file]" description="Undo the last schema migration" />
           <SubOptions>
             <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="--keep-snapshots" arg="<n>" desc="SQLite snapshots to keep, 0 to skip" />
           </SubOptions>
 
           <Command name="generateMigration" args="[file]" description="Generate migration script from schema changes" />
           <SubOptions>
             <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="--out" arg="<dir>" desc="Write numbered up and down .sql files" />
+          </SubOptions>
+
+          <Command name="migrate status" args="[file]" description="List recorded migrations and pending changes" />
+          <SubOptions>
+            <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="--json" desc="Print the status as JSON" />
+          </SubOptions>
+
+          <Command name="migrate down" args="[file]" description="Revert migrations back to a version or by a count" />
+          <SubOptions>
+            <Option flag="--to" arg="<version|count>" desc="Version to go back to, or number of migrations" />
+            <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="--allow-destructive" desc="Revert changes that may lose data without asking" />
+            <Option flag="--keep-snapshots" arg="<n>" desc="SQLite snapshots to keep, 0 to skip" />
+            <Option flag="--dry-run" desc="Preview the down statements only" />
+          </SubOptions>
+
+          <Command
+            name="db restore"
+            args="<snapshot> [file]"
+            description="Restore the SQLite database from a snapshot"
+          />
+          <SubOptions>
+            <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+          </SubOptions>
+
+          <Command name="data export" args="[file]" description="Export the records of the app" />
+          <SubOptions>
+            <Option flag="--entity" arg="<name>" desc="Module/Entity to export (repeatable)" />
+            <Option flag="--format" arg="<format>" desc="json, ndjson or csv" />
+            <Option flag="--out" arg="<path>" desc="File, or directory for csv" />
+            <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+          </SubOptions>
+
+          <Command name="data import" args="<input> [file]" description="Import records written by data export" />
+          <SubOptions>
+            <Option flag="--format" arg="<format>" desc="json, ndjson or csv" />
+            <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+          </SubOptions>
+
+          <Command
+            name="schema diff"
+            args="<ref-a> [ref-b]"
+            description="Compare the data model between git revisions"
+          />
+          <SubOptions>
+            <Option flag="--app" arg="<path>" desc="Application directory" />
+            <Option flag="-f, --format" arg="<format>" desc="text, markdown or json" />
+            <Option flag="-o, --output" arg="<file>" desc="Write the report to a file" />
           </SubOptions>
 
           <Command name="repl" args="[directory]" description="Start interactive REPL environment" />
           <SubOptions>
             <Option flag="-w, --watch" desc="Watch files and reload automatically" />
             <Option flag="-q, --quiet" desc="Suppress startup messages" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="--history-size" arg="<n>" desc="Entries kept in .agentlang/repl_history" />
           </SubOptions>
 
           <Command name="doc" args="[file]" description="Generate API documentation (Swagger/OpenAPI)" />
@@ -188,11 +279,34 @@ export default function Help({ version }: HelpProps) {
             <Option flag="-p, --outputPostman" arg="<file>" desc="Generate Postman collection" />
           </SubOptions>
 
-          <Command name="parseAndValidate" args="<file>" description="Parse and validate Agentlang source code" />
+          <Command name="parseAndValidate" args="<path>" description="Parse and validate Agentlang source code" />
+          <SubOptions>
+            <Option flag="-d, --destination" arg="<dir>" desc="Write AST and module model JSON" />
+            <Option flag="-f, --format" arg="<format>" desc="Report format: text, json or sarif" />
+            <Option flag="-o, --output" arg="<file>" desc="Write the report to a file" />
+          </SubOptions>
+
+          <Command name="check" args="[path]" description="Validate every module of an Agentlang application" />
           <SubOptions>
-            <Option flag="-d, --destination" arg="<dir>" desc="Output directory" />
+            <Option flag="-f, --format" arg="<format>" desc="Report format: text, json or sarif" />
+            <Option flag="-o, --output" arg="<file>" desc="Write the report to a file" />
+            <Option flag="-w, --watch" desc="Re-validate changed files on save" />
           </SubOptions>
 
+          <Command name="lint" args="[path]" description="Check Agentlang modules for common design mistakes" />
+          <SubOptions>
+            <Option flag="--fix" desc="Fix problems that have a mechanical fix" />
+            <Option flag="-c, --config" arg="<file>" desc="Lint configuration file" />
+            <Option flag="-r, --rule" arg="<rule=severity>" desc="Override the severity of a rule" />
+          </SubOptions>
+
+          <Command name="fmt" args="[paths...]" description="Format Agentlang source files" />
+          <SubOptions>
+            <Option flag="--check" desc="Report unformatted files instead of rewriting them" />
+          </SubOptions>
+
+          <Command name="lsp" args="--stdio" description="Start the Agentlang language server" />
+
           <Command
             name="ui-gen"
             args="[spec-file]"
@@ -226,6 +340,20 @@ export default function Help({ version }: HelpProps) {
           <Command name="studio" args="[path]" description="Start Agentlang Studio with local server" />
           <SubOptions>
             <Option flag="-p, --port" arg="<port>" desc="Port to run Studio server on (default: 4000)" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value of the app" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile of the app" />
+          </SubOptions>
+
+          <Command
+            name="config"
+            args="<show|validate|get|set>"
+            description="Inspect, validate and edit app configuration"
+          />
+          <SubOptions>
+            <Option flag="-c, --config" arg="<file>" desc="Configuration file path" />
+            <Option flag="--profile" arg="<name>" desc="Configuration profile to layer over the base" />
+            <Option flag="-s, --set" arg="<key=value>" desc="Override a configuration value" />
+            <Option flag="--json" desc="Print show output as JSON" />
           </SubOptions>
         </Box>
       </Box>
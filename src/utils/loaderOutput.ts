@@ -0,0 +1,16 @@
+/**
+ * Runs a task, such as loading an app, with what it prints through
+ * console.log sent to stderr, so that stdout only carries what the command
+ * itself writes there.
+ */
+export async function withLoaderOutputOnStderr<T>(task: () => Promise<T>): Promise<T> {
+  /* eslint-disable no-console */
+  const log = console.log;
+  console.log = console.error;
+  try {
+    return await task();
+  } finally {
+    console.log = log;
+  }
+  /* eslint-enable no-console */
+}
@@ -57,6 +57,7 @@ temp/
 .env
 .env.local
 .env.*.local
+.agentlang/
 npm-debug.log*
 pnpm-debug.log*
 yarn-error.log*
@@ -0,0 +1,176 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { NodeFileSystem } from 'langium/node';
+import { URI, type LangiumDocument } from 'langium';
+import type { AgentlangServices } from 'agentlang/out/language/agentlang-module.js';
+import { checkModuleReferences } from './references.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modCreateAgentlangServices: typeof import('agentlang/out/language/agentlang-module.js') = await import(
+  `${agPath}/out/language/agentlang-module.js`
+);
+const { createAgentlangServices } = modCreateAgentlangServices;
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+// 'file' is a file that could not be read, before any stage saw it
+export type DiagnosticSource = 'file' | 'lexer' | 'parser' | 'linker' | 'validator' | 'lint';
+
+export interface ValidationDiagnostic {
+  file: string;
+  // 1-based position of the first character covered by the diagnostic
+  line: number;
+  column: number;
+  // 1-based position just past the last character covered by the diagnostic
+  endLine: number;
+  endColumn: number;
+  severity: DiagnosticSeverity;
+  source: DiagnosticSource;
+  code?: string;
+  message: string;
+}
+
+export interface FileValidationResult {
+  file: string;
+  text: string;
+  diagnostics: ValidationDiagnostic[];
+  // Built document, absent when the file could not be read
+  document?: LangiumDocument;
+}
+
+// LSP DiagnosticSeverity values as produced by Langium
+const severityNames: Record<number, DiagnosticSeverity> = {
+  1: 'error',
+  2: 'warning',
+  3: 'info',
+  4: 'hint',
+};
+
+function byPosition(a: ValidationDiagnostic, b: ValidationDiagnostic): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+function sourceForCode(code: string | undefined): DiagnosticSource {
+  if (code?.startsWith('lexing-')) return 'lexer';
+  if (code === 'parsing-error') return 'parser';
+  if (code === 'linking-error') return 'linker';
+  return 'validator';
+}
+
+export function createValidationServices(): AgentlangServices {
+  return createAgentlangServices(NodeFileSystem).Agentlang;
+}
+
+/**
+ * Converts the Langium diagnostics of a built document into CLI diagnostics.
+ * Lexer and parser errors are reported by Langium's document validator alongside
+ * the Agentlang validator checks, so document.diagnostics covers all of them.
+ */
+export function collectDiagnostics(document: LangiumDocument, file: string): ValidationDiagnostic[] {
+  return (document.diagnostics ?? [])
+    .map(d => {
+      const data = d.data as { code?: string } | undefined;
+      const code = data?.code ?? (typeof d.code === 'string' ? d.code : undefined);
+      return {
+        file,
+        line: d.range.start.line + 1,
+        column: d.range.start.character + 1,
+        endLine: d.range.end.line + 1,
+        endColumn: d.range.end.character + 1,
+        severity: severityNames[d.severity ?? 1] ?? 'error',
+        source: sourceForCode(code),
+        code,
+        message: d.message,
+      };
+    })
+    .sort(byPosition);
+}
+
+/**
+ * Parse, link and validate the given files within a single Langium workspace,
+ * then check references between the modules they define.
+ * Unlike extractDocument from the agentlang loader, this never throws on the
+ * first error: every diagnostic is collected and returned per file.
+ */
+export async function validateFiles(
+  files: string[],
+  services: AgentlangServices = createValidationServices(),
+): Promise<FileValidationResult[]> {
+  const extensions = services.LanguageMetaData.fileExtensions;
+  const results: FileValidationResult[] = [];
+  const documents: { file: string; document: LangiumDocument }[] = [];
+
+  for (const file of files) {
+    const absPath = path.resolve(process.cwd(), file);
+    if (!extensions.includes(path.extname(absPath))) {
+      results.push(fileError(file, `Unsupported file extension, expected one of: ${extensions.join(', ')}`));
+      continue;
+    }
+    if (!existsSync(absPath)) {
+      results.push(fileError(file, `File ${file} does not exist`));
+      continue;
+    }
+    try {
+      const document = await services.shared.workspace.LangiumDocuments.getOrCreateDocument(URI.file(absPath));
+      documents.push({ file, document });
+    } catch (error) {
+      results.push(fileError(file, `Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  await services.shared.workspace.DocumentBuilder.build(
+    documents.map(d => d.document),
+    { validation: true },
+  );
+
+  return results.concat(collectResults(documents));
+}
+
+/**
+ * Assembles the results of already built documents, adding the references
+ * between modules that are checked across all of them.
+ */
+export function collectResults(documents: { file: string; document: LangiumDocument }[]): FileValidationResult[] {
+  const crossModule = checkModuleReferences(documents);
+  return documents.map(({ file, document }) => ({
+    file,
+    text: document.textDocument.getText(),
+    diagnostics: collectDiagnostics(document, file)
+      .concat(crossModule.filter(d => d.file === file))
+      .sort(byPosition),
+    document,
+  }));
+}
+
+function fileError(file: string, message: string): FileValidationResult {
+  return {
+    file,
+    text: '',
+    diagnostics: [
+      {
+        file,
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: 1,
+        severity: 'error',
+        source: 'file',
+        message,
+      },
+    ],
+  };
+}
+
+export function countBySeverity(results: FileValidationResult[], severity: DiagnosticSeverity): number {
+  return results.reduce((n, r) => n + r.diagnostics.filter(d => d.severity === severity).length, 0);
+}
+
+export function hasErrors(results: FileValidationResult[]): boolean {
+  return countBySeverity(results, 'error') > 0;
+}
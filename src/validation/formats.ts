@@ -0,0 +1,87 @@
+import * as path from 'node:path';
+import { countBySeverity, type DiagnosticSeverity, type FileValidationResult } from './diagnostics.js';
+
+export const reportFormats = ['text', 'json', 'sarif'] as const;
+
+export type ReportFormat = (typeof reportFormats)[number];
+
+export function isReportFormat(format: string): format is ReportFormat {
+  return (reportFormats as readonly string[]).includes(format);
+}
+
+/**
+ * Plain JSON report, stable enough for editor integrations and scripts.
+ * Positions are 1-based, matching the text output.
+ */
+export function toJsonReport(results: FileValidationResult[]): object {
+  return {
+    summary: {
+      files: results.length,
+      errors: countBySeverity(results, 'error'),
+      warnings: countBySeverity(results, 'warning'),
+    },
+    files: results.map(r => ({
+      file: r.file,
+      errors: r.diagnostics.filter(d => d.severity === 'error').length,
+      warnings: r.diagnostics.filter(d => d.severity === 'warning').length,
+      diagnostics: r.diagnostics.map(({ file: _file, ...d }) => d),
+    })),
+  };
+}
+
+const sarifLevels: Record<DiagnosticSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+  hint: 'note',
+};
+
+function toArtifactUri(file: string): string {
+  const relative = path.relative(process.cwd(), path.resolve(process.cwd(), file));
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * SARIF 2.1.0 log with one run, as accepted by code-scanning upload actions.
+ * Rule ids are the diagnostic code when there is one, otherwise the diagnostic
+ * source (lexer, parser, linker or validator).
+ */
+export function toSarifLog(results: FileValidationResult[], toolVersion: string): object {
+  const diagnostics = results.flatMap(r => r.diagnostics);
+  const ruleIds = [...new Set(diagnostics.map(d => d.code ?? d.source))].sort();
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'agentlang',
+            version: toolVersion,
+            informationUri: 'https://github.com/agentlang/agentlang-cli',
+            rules: ruleIds.map(id => ({ id, shortDescription: { text: id } })),
+          },
+        },
+        results: diagnostics.map(d => ({
+          ruleId: d.code ?? d.source,
+          level: sarifLevels[d.severity],
+          message: { text: d.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: toArtifactUri(d.file) },
+                region: {
+                  startLine: d.line,
+                  startColumn: d.column,
+                  endLine: d.endLine,
+                  endColumn: d.endColumn,
+                },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
@@ -0,0 +1,275 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import type { AstNode } from 'langium';
+import type { AgentlangServices } from 'agentlang/out/language/agentlang-module.js';
+import type {
+  AgentDefinition,
+  AttributeDefinition,
+  Literal,
+  ModuleDefinition,
+  PropertyDefinition,
+  RecordSchemaDefinition,
+  RelationshipDefinition,
+  WorkflowDefinition,
+} from 'agentlang/out/language/generated/ast.js';
+import type { FileValidationResult } from './diagnostics.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modAst: typeof import('agentlang/out/language/generated/ast.js') = await import(
+  `${agPath}/out/language/generated/ast.js`
+);
+const {
+  isAgentDefinition,
+  isEntityDefinition,
+  isEventDefinition,
+  isPublicAgentDefinition,
+  isPublicEventDefinition,
+  isPublicWorkflowDefinition,
+  isRecordDefinition,
+  isRelationshipDefinition,
+  isWorkflowDefinition,
+} = modAst;
+
+export interface AttributeModel {
+  name: string;
+  type?: string;
+  array?: boolean;
+  enum?: string[];
+  oneOf?: string;
+  ref?: string;
+  expr?: string;
+  properties: Record<string, unknown>;
+}
+
+export interface SchemaModel {
+  name: string;
+  extends?: string;
+  public?: boolean;
+  attributes: AttributeModel[];
+  // Raw source of @meta, @rbac, @with_unique, @after/@before and @actions clauses
+  annotations: string[];
+}
+
+export interface RelationshipModel {
+  name: string;
+  type: 'contains' | 'between';
+  nodes: { name: string; alias?: string }[];
+  properties: Record<string, unknown>;
+  attributes: AttributeModel[];
+}
+
+export interface WorkflowModel {
+  name?: string;
+  trigger?: { when: string; operation: string; entity: string };
+  public: boolean;
+  directives: Record<string, string>;
+  statements: string[];
+}
+
+export interface AgentModel {
+  name: string;
+  public: boolean;
+  attributes: Record<string, unknown>;
+}
+
+export interface ModuleModel {
+  name: string;
+  file: string;
+  imports: { name: string; path: string }[];
+  entities: SchemaModel[];
+  records: SchemaModel[];
+  events: SchemaModel[];
+  relationships: RelationshipModel[];
+  workflows: WorkflowModel[];
+  agents: AgentModel[];
+}
+
+function sourceText(node: AstNode | undefined): string {
+  return node?.$cstNode?.text ?? '';
+}
+
+function unquote(s: string): string {
+  return s.length >= 2 && (s[0] === '"' || s[0] === '`') && s[s.length - 1] === s[0] ? s.slice(1, -1) : s;
+}
+
+// Scalars become JSON values, anything more complex is kept as Agentlang source
+function literalValue(lit: Literal | undefined): unknown {
+  if (!lit) return undefined;
+  if (lit.str !== undefined) return unquote(lit.str);
+  if (lit.num !== undefined) return lit.num;
+  if (lit.bool !== undefined) return lit.bool === 'true';
+  if (lit.id !== undefined) return lit.id;
+  return sourceText(lit);
+}
+
+function propertiesModel(props: PropertyDefinition[] | undefined): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const prop of props ?? []) {
+    const name = prop.name.replace(/^@/, '');
+    const pairs = prop.value?.pairs ?? [];
+    if (pairs.length === 0) {
+      result[name] = true;
+    } else if (pairs.length === 1 && !pairs[0].key) {
+      result[name] = literalValue(pairs[0].value);
+    } else {
+      result[name] = Object.fromEntries(pairs.map((p, i) => [p.key ?? String(i), literalValue(p.value)]));
+    }
+  }
+  return result;
+}
+
+function attributeModel(attr: AttributeDefinition): AttributeModel {
+  const model: Omit<AttributeModel, 'properties'> = { name: attr.name };
+  if (attr.type) model.type = String(attr.type);
+  if (attr.arrayType) {
+    model.type = String(attr.arrayType);
+    model.array = true;
+  }
+  if (attr.enumSpec) {
+    if (attr.enumSpec.type) model.type = String(attr.enumSpec.type);
+    model.enum = attr.enumSpec.values.map(unquote);
+  }
+  if (attr.oneOfSpec) model.oneOf = String(attr.oneOfSpec.ref);
+  if (attr.refSpec) {
+    if (attr.refSpec.type) model.type = String(attr.refSpec.type);
+    model.ref = String(attr.refSpec.ref);
+  }
+  if (attr.expr) model.expr = sourceText(attr.expr);
+  return { ...model, properties: propertiesModel(attr.properties) };
+}
+
+function schemaModel(
+  def: { name: string; extends?: { parentName: string }; schema?: RecordSchemaDefinition },
+  isPublic = false,
+): SchemaModel {
+  return {
+    name: String(def.name),
+    ...(def.extends ? { extends: String(def.extends.parentName) } : {}),
+    ...(isPublic ? { public: true } : {}),
+    attributes: (def.schema?.attributes ?? []).map(attributeModel),
+    annotations: (def.schema?.extras ?? []).map(sourceText),
+  };
+}
+
+function relationshipModel(def: RelationshipDefinition): RelationshipModel {
+  return {
+    name: String(def.name),
+    type: def.type,
+    nodes: [def.nodes?.node1, def.nodes?.node2]
+      .filter(n => n !== undefined)
+      .map(n => (n.alias ? { name: String(n.name), alias: n.alias } : { name: String(n.name) })),
+    properties: propertiesModel(def.properties),
+    attributes: (def.schema?.attributes ?? []).map(attributeModel),
+  };
+}
+
+function workflowModel(def: WorkflowDefinition, isPublic: boolean): WorkflowModel {
+  const trigger = def.header && {
+    when: def.header.tag.replace(/^@/, ''),
+    operation: def.header.prefix,
+    entity: String(def.header.name),
+  };
+  return {
+    ...(def.name ? { name: def.name } : {}),
+    ...(trigger ? { trigger } : {}),
+    public: isPublic,
+    directives: Object.fromEntries(
+      (def.directives?.entries ?? []).map(e => [e.tag.replace(/^@/, ''), unquote(String(e.value))]),
+    ),
+    statements: def.statements.map(sourceText),
+  };
+}
+
+function agentModel(def: AgentDefinition, isPublic: boolean): AgentModel {
+  return {
+    name: unquote(String(def.name)),
+    public: isPublic,
+    attributes: Object.fromEntries((def.body?.attributes ?? []).map(a => [a.name, literalValue(a.value)])),
+  };
+}
+
+/**
+ * Builds a runtime-independent description of a parsed module: its schema
+ * definitions, relationships, workflows and agents with their attributes and
+ * annotations. Values that are not plain scalars are kept as Agentlang source.
+ */
+export function buildModuleModel(module: ModuleDefinition, file: string): ModuleModel {
+  const model: ModuleModel = {
+    name: module.name,
+    file,
+    imports: (module.imports ?? []).map(i => ({ name: i.name, path: unquote(i.path) })),
+    entities: [],
+    records: [],
+    events: [],
+    relationships: [],
+    workflows: [],
+    agents: [],
+  };
+
+  for (const def of module.defs ?? []) {
+    if (isEntityDefinition(def)) {
+      model.entities.push(schemaModel(def));
+    } else if (isRecordDefinition(def)) {
+      model.records.push(schemaModel(def));
+    } else if (isEventDefinition(def)) {
+      model.events.push(schemaModel(def));
+    } else if (isPublicEventDefinition(def)) {
+      model.events.push(schemaModel(def.def, true));
+    } else if (isRelationshipDefinition(def)) {
+      model.relationships.push(relationshipModel(def));
+    } else if (isWorkflowDefinition(def)) {
+      model.workflows.push(workflowModel(def, false));
+    } else if (isPublicWorkflowDefinition(def)) {
+      model.workflows.push(workflowModel(def.def, true));
+    } else if (isAgentDefinition(def)) {
+      model.agents.push(agentModel(def, false));
+    } else if (isPublicAgentDefinition(def)) {
+      model.agents.push(agentModel(def.def, true));
+    }
+  }
+
+  return model;
+}
+
+function moduleFileName(name: string): string {
+  return `${name.replace(/[^\w.-]/g, '_')}.json`;
+}
+
+/**
+ * Writes model.json (the resolved model of every module) and one serialized
+ * AST per module under ast/ in the destination directory.
+ * Returns the paths of the written files.
+ */
+export async function emitModel(
+  results: FileValidationResult[],
+  services: AgentlangServices,
+  destination: string,
+): Promise<string[]> {
+  const outDir = path.resolve(process.cwd(), destination);
+  const astDir = path.join(outDir, 'ast');
+  await fs.mkdir(astDir, { recursive: true });
+
+  const written: string[] = [];
+  const modules: ModuleModel[] = [];
+  for (const result of results) {
+    const module = result.document?.parseResult.value as ModuleDefinition | undefined;
+    if (!module?.name) continue;
+    modules.push(buildModuleModel(module, result.file));
+
+    const astFile = path.join(astDir, moduleFileName(module.name));
+    await fs.writeFile(astFile, `${services.serializer.JsonSerializer.serialize(module, { space: 2 })}\n`, 'utf-8');
+    written.push(astFile);
+  }
+
+  const modelFile = path.join(outDir, 'model.json');
+  await fs.writeFile(modelFile, `${JSON.stringify({ modules }, null, 2)}\n`, 'utf-8');
+  written.unshift(modelFile);
+  return written;
+}
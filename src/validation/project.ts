@@ -0,0 +1,59 @@
+import * as path from 'node:path';
+import { existsSync, readdirSync, statSync } from 'node:fs';
+
+const ignoredDirs = new Set(['node_modules', '.git', 'out', 'dist']);
+
+// config.al and files named after it, as in config.prod.al, hold configuration rather than modules
+const configFile = /^config(\.[^.]+)?\.al$/i;
+
+function collectAlFiles(dir: string, recursive: boolean, files: string[] = []): string[] {
+  if (!existsSync(dir)) return files;
+  for (const entry of readdirSync(dir).sort()) {
+    const fullPath = path.join(dir, entry);
+    if (path.extname(entry).toLowerCase() === '.al') {
+      files.push(fullPath);
+    } else if (recursive && !ignoredDirs.has(entry)) {
+      try {
+        if (statSync(fullPath).isDirectory()) {
+          collectAlFiles(fullPath, recursive, files);
+        }
+      } catch {
+        // Skip entries we can't stat
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Lists the module files of an Agentlang app the same way the runtime loader does:
+ * .al files at the top level of the app directory plus everything under src/,
+ * excluding config.al and config.<name>.al. Paths are returned relative to the current directory.
+ */
+export function findProjectFiles(appDir: string): string[] {
+  const absDir = path.resolve(process.cwd(), appDir);
+  const files = collectAlFiles(absDir, false)
+    .filter(f => !configFile.test(path.basename(f)))
+    .concat(collectAlFiles(path.join(absDir, 'src'), true));
+  return files.map(f => path.relative(process.cwd(), f) || f);
+}
+
+/**
+ * Whether a path relative to an app directory, with / separators, is one of
+ * the module files findProjectFiles lists, for files that are not on disk.
+ */
+export function isProjectFile(relativePath: string): boolean {
+  const parts = relativePath.split('/');
+  if (path.extname(relativePath).toLowerCase() !== '.al') return false;
+  if (parts.length === 1) return !configFile.test(relativePath);
+  return parts[0] === 'src' && !parts.slice(1, -1).some(dir => ignoredDirs.has(dir));
+}
+
+// Expands a file-or-directory argument into the list of files to validate
+export function resolveValidationTargets(target: string): string[] {
+  const absPath = path.resolve(process.cwd(), target);
+  if (existsSync(absPath) && statSync(absPath).isDirectory()) {
+    return findProjectFiles(target);
+  }
+  return [target];
+}
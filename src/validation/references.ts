@@ -0,0 +1,99 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import type { AstNode, LangiumDocument } from 'langium';
+import type { ModuleDefinition } from 'agentlang/out/language/generated/ast.js';
+import type { ValidationDiagnostic } from './diagnostics.js';
+
+let agPath = 'agentlang';
+const nodeModulesPath = path.resolve(process.cwd(), 'node_modules/agentlang');
+
+if (existsSync(nodeModulesPath)) {
+  agPath = nodeModulesPath;
+}
+
+const modAst: typeof import('agentlang/out/language/generated/ast.js') = await import(
+  `${agPath}/out/language/generated/ast.js`
+);
+const { isEntityDefinition, isEventDefinition, isRecordDefinition, isRelationshipDefinition, isWorkflowDefinition } =
+  modAst;
+
+export interface ParsedModuleFile {
+  file: string;
+  document: LangiumDocument;
+}
+
+interface Reference {
+  name: string;
+  node: AstNode;
+  kind: string;
+}
+
+function splitName(name: string, moduleName: string): { moduleName: string; localName: string } {
+  const idx = name.lastIndexOf('/');
+  return idx < 0
+    ? { moduleName, localName: name }
+    : { moduleName: name.substring(0, idx), localName: name.substring(idx + 1) };
+}
+
+function collectReferences(module: ModuleDefinition): Reference[] {
+  const refs: Reference[] = [];
+  for (const def of module.defs ?? []) {
+    if ((isEntityDefinition(def) || isEventDefinition(def) || isRecordDefinition(def)) && def.extends) {
+      refs.push({ name: String(def.extends.parentName), node: def.extends, kind: 'parent' });
+    } else if (isRelationshipDefinition(def) && def.nodes) {
+      for (const node of [def.nodes.node1, def.nodes.node2]) {
+        if (node) refs.push({ name: String(node.name), node, kind: 'relationship node' });
+      }
+    } else if (isWorkflowDefinition(def) && def.header) {
+      refs.push({ name: String(def.header.name), node: def.header, kind: 'trigger entity' });
+    }
+  }
+  return refs;
+}
+
+/**
+ * Checks references between definitions across all modules of a project: parent
+ * types in `extends`, relationship nodes and `@after`/`@before` trigger targets.
+ * Only references into modules defined by the project are checked; anything
+ * pointing at core or dependency modules is left to the runtime.
+ */
+export function checkModuleReferences(files: ParsedModuleFile[]): ValidationDiagnostic[] {
+  const definitions = new Map<string, Set<string>>();
+  const modules: { file: string; module: ModuleDefinition }[] = [];
+
+  for (const { file, document } of files) {
+    const module = document.parseResult.value as ModuleDefinition | undefined;
+    if (!module?.name) continue;
+    modules.push({ file, module });
+    const names = definitions.get(module.name) ?? new Set<string>();
+    for (const def of module.defs ?? []) {
+      if (isEntityDefinition(def) || isEventDefinition(def) || isRecordDefinition(def)) {
+        names.add(String(def.name));
+      }
+    }
+    definitions.set(module.name, names);
+  }
+
+  const diagnostics: ValidationDiagnostic[] = [];
+  for (const { file, module } of modules) {
+    for (const ref of collectReferences(module)) {
+      const { moduleName, localName } = splitName(ref.name, module.name);
+      const names = definitions.get(moduleName);
+      if (!names || names.has(localName)) continue;
+
+      const range = ref.node.$cstNode?.range;
+      diagnostics.push({
+        file,
+        line: (range?.start.line ?? 0) + 1,
+        column: (range?.start.character ?? 0) + 1,
+        endLine: (range?.end.line ?? 0) + 1,
+        endColumn: (range?.end.character ?? 0) + 1,
+        severity: 'error',
+        source: 'linker',
+        code: 'unresolved-reference',
+        message: `Unknown ${ref.kind} '${localName}' in module ${moduleName}`,
+      });
+    }
+  }
+  return diagnostics;
+}
@@ -0,0 +1,98 @@
+import { ui } from '../ui/index.js';
+import {
+  countBySeverity,
+  type DiagnosticSeverity,
+  type FileValidationResult,
+  type ValidationDiagnostic,
+} from './diagnostics.js';
+
+const severityFormat: Record<DiagnosticSeverity, (msg: string) => string> = {
+  error: ui.format.error,
+  warning: ui.format.warn,
+  info: ui.format.info,
+  hint: ui.format.dim,
+};
+
+export function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+// Renders the offending line with a caret marker underneath, compiler style
+function formatExcerpt(lines: string[], d: ValidationDiagnostic): string[] {
+  const source = lines[d.line - 1];
+  if (source === undefined) return [];
+
+  const gutterWidth = String(d.line + 1).length;
+  const gutter = (n?: number) => ui.format.dim(`${String(n ?? '').padStart(gutterWidth)} | `);
+  const excerpt: string[] = [];
+
+  if (d.line > 1 && lines[d.line - 2].trim()) {
+    excerpt.push(`  ${gutter(d.line - 1)}${lines[d.line - 2]}`);
+  }
+  excerpt.push(`${severityFormat[d.severity]('>')} ${gutter(d.line)}${source}`);
+
+  const start = d.column - 1;
+  const end = d.endLine === d.line ? Math.max(d.endColumn - 1, start + 1) : source.length;
+  const width = Math.max(1, Math.min(end, source.length) - start);
+  const padding = source.slice(0, start).replace(/[^\t]/g, ' ');
+  excerpt.push(`  ${gutter()}${padding}${severityFormat[d.severity]('^'.repeat(width))}`);
+
+  return excerpt;
+}
+
+export function formatDiagnostic(d: ValidationDiagnostic, lines: string[]): string[] {
+  const location = ui.format.bold(`${d.file}:${d.line}:${d.column}`);
+  const severity = severityFormat[d.severity](d.severity);
+  // Lint findings are tagged with their rule id, everything else with the stage that reported it
+  const source = ui.format.dim(`[${d.source === 'lint' && d.code ? d.code : d.source}]`);
+  return [`${location} ${severity} ${source} ${d.message}`, ...formatExcerpt(lines, d)];
+}
+
+export function printFileSummary(results: FileValidationResult[]): void {
+  const width = Math.max(...results.map(r => r.file.length));
+  ui.header('Summary');
+  for (const result of results) {
+    const errors = result.diagnostics.filter(d => d.severity === 'error').length;
+    const warnings = result.diagnostics.filter(d => d.severity === 'warning').length;
+    const counts: string[] = [];
+    if (errors > 0) counts.push(ui.format.error(plural(errors, 'error')));
+    if (warnings > 0) counts.push(ui.format.warn(plural(warnings, 'warning')));
+    // eslint-disable-next-line no-console
+    console.log(`  ${result.file.padEnd(width)}  ${counts.length > 0 ? counts.join(', ') : ui.format.success('ok')}`);
+  }
+  ui.blank();
+}
+
+/**
+ * Prints every diagnostic with its location and a code excerpt, followed by a
+ * one-line summary. Output goes to stdout so it can be piped or captured in CI logs.
+ */
+export function printTextReport(results: FileValidationResult[]): void {
+  /* eslint-disable no-console */
+  for (const result of results) {
+    // A file that could not be read has no text to quote
+    const lines = result.text ? result.text.split(/\r?\n/) : [];
+    for (const d of result.diagnostics) {
+      console.log(formatDiagnostic(d, lines).join('\n'));
+      console.log('');
+    }
+  }
+  /* eslint-enable no-console */
+
+  if (results.length > 1) {
+    printFileSummary(results);
+  }
+
+  const errors = countBySeverity(results, 'error');
+  const warnings = countBySeverity(results, 'warning');
+  const files = plural(results.length, 'file');
+
+  if (errors > 0) {
+    ui.error(`Found ${plural(errors, 'error')} and ${plural(warnings, 'warning')} in ${files}`);
+  } else if (warnings > 0) {
+    ui.warn(`Validated ${files} with ${plural(warnings, 'warning')}`);
+  } else {
+    const target = results.length === 1 ? results[0].file : files;
+    ui.success(`Parsed and validated ${target} successfully!`);
+  }
+}
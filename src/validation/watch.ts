@@ -0,0 +1,95 @@
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import * as chokidar from 'chokidar';
+import { URI, type LangiumDocument } from 'langium';
+import type { AgentlangServices } from 'agentlang/out/language/agentlang-module.js';
+import { ui } from '../ui/index.js';
+import { collectResults, validateFiles, type FileValidationResult } from './diagnostics.js';
+import { resolveValidationTargets } from './project.js';
+
+const ignoredDirs = ['node_modules', '.git', 'out', 'dist'];
+
+export type ValidationListener = (results: FileValidationResult[], changed: string[]) => void;
+
+/**
+ * Validates the target once, then keeps the Langium workspace alive and, each
+ * time files are saved, rebuilds only the changed documents (plus the ones
+ * linked to them) instead of the whole app. The listener receives the full set
+ * of results after every run, along with the files that triggered it.
+ */
+export async function watchValidation(
+  target: string,
+  services: AgentlangServices,
+  listener: ValidationListener,
+  debounceMs = 150,
+): Promise<chokidar.FSWatcher> {
+  const { DocumentBuilder, LangiumDocuments } = services.shared.workspace;
+  DocumentBuilder.updateBuildOptions = { validation: true };
+
+  listener(await validateFiles(resolveValidationTargets(target), services), []);
+
+  const changed = new Set<string>();
+  const deleted = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = Promise.resolve();
+
+  const revalidate = async () => {
+    const changedFiles = [...changed];
+    const deletedFiles = [...deleted];
+    changed.clear();
+    deleted.clear();
+
+    const files = resolveValidationTargets(target).filter(f => existsSync(path.resolve(process.cwd(), f)));
+    const inScope = new Set(files.map(f => path.resolve(process.cwd(), f)));
+    await DocumentBuilder.update(
+      changedFiles.filter(f => inScope.has(f)).map(f => URI.file(f)),
+      deletedFiles.map(f => URI.file(f)),
+    );
+
+    const documents = files.flatMap(file => {
+      const document: LangiumDocument | undefined = LangiumDocuments.getDocument(
+        URI.file(path.resolve(process.cwd(), file)),
+      );
+      return document ? [{ file, document }] : [];
+    });
+    listener(
+      collectResults(documents),
+      [...changedFiles, ...deletedFiles].map(f => path.relative(process.cwd(), f)),
+    );
+  };
+
+  const schedule = (file: string, removed: boolean) => {
+    const absPath = path.resolve(file);
+    (removed ? deleted : changed).add(absPath);
+    (removed ? changed : deleted).delete(absPath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      // Runs are chained so a save during a rebuild is picked up right after it
+      running = running.then(revalidate).catch((error: unknown) => {
+        ui.error(`Validation failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, debounceMs);
+  };
+
+  const root = path.resolve(process.cwd(), target);
+  const watcher = chokidar.watch(root, {
+    ignored: (file, stats) =>
+      path
+        .relative(root, file)
+        .split(path.sep)
+        .some(part => ignoredDirs.includes(part)) ||
+      (stats?.isFile() === true && path.extname(file) !== '.al'),
+    ignoreInitial: true,
+    persistent: true,
+  });
+
+  watcher
+    .on('add', file => schedule(file, false))
+    .on('change', file => schedule(file, false))
+    .on('unlink', file => schedule(file, true))
+    .on('error', (error: unknown) => {
+      ui.error(`Watcher error: ${String(error)}`);
+    });
+
+  return watcher;
+}